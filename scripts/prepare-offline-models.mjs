@@ -0,0 +1,103 @@
+// Pre-packages the ML assets so the app runs without network access.
+//
+//   node scripts/prepare-offline-models.mjs            download weights from the Hugging Face Hub
+//   node scripts/prepare-offline-models.mjs --from DIR copy weights from DIR/<model id>/... (air-gapped)
+//   node scripts/prepare-offline-models.mjs --force    overwrite files that already exist
+//   node scripts/prepare-offline-models.mjs --model ID only prepare the given model (repeatable)
+//
+// Weights go to public/models/<model id>/ and the onnxruntime wasm binaries to
+// public/ort/, so Vite serves them from the app's own origin and copies them into dist/.
+// Keep MODELS in sync with the model registry (src/utils/modelRegistry.ts), PROMPT_MODEL included.
+import { copyFile, mkdir, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const PUBLIC = join(ROOT, 'public');
+const HF_ENDPOINT = process.env.HF_ENDPOINT ?? 'https://huggingface.co';
+
+const MODELS = {
+    'briaai/RMBG-1.4': ['config.json', 'preprocessor_config.json', 'onnx/model_quantized.onnx'],
+    'Xenova/modnet': ['config.json', 'preprocessor_config.json', 'onnx/model_quantized.onnx'],
+    'BritishWerewolf/U-2-Netp': ['config.json', 'preprocessor_config.json', 'onnx/model_quantized.onnx'],
+    // Click-to-refine (PROMPT_MODEL)
+    'Xenova/slimsam-77-uniform': [
+        'config.json',
+        'preprocessor_config.json',
+        'onnx/vision_encoder_quantized.onnx',
+        'onnx/prompt_encoder_mask_decoder_quantized.onnx',
+    ],
+};
+
+const WASM_FILES = ['ort-wasm.wasm', 'ort-wasm-simd.wasm', 'ort-wasm-threaded.wasm', 'ort-wasm-simd-threaded.wasm'];
+
+const args = process.argv.slice(2);
+const force = args.includes('--force');
+const fromIndex = args.indexOf('--from');
+const fromDir = fromIndex >= 0 ? resolve(args[fromIndex + 1] ?? '') : null;
+const onlyModels = args.flatMap((arg, i) => (arg === '--model' && args[i + 1] ? [args[i + 1]] : []));
+
+for (const id of onlyModels) {
+    if (!MODELS[id]) {
+        console.error(`Unknown model ${id}. Known models: ${Object.keys(MODELS).join(', ')}`);
+        process.exit(1);
+    }
+}
+
+const exists = async (path) => {
+    try {
+        await stat(path);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+async function fetchModelFile(modelId, file, target) {
+    if (fromDir) {
+        await copyFile(join(fromDir, modelId, file), target);
+        return;
+    }
+    const url = `${HF_ENDPOINT}/${modelId}/resolve/main/${file}`;
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`GET ${url} -> ${response.status}`);
+    await writeFile(target, Buffer.from(await response.arrayBuffer()));
+}
+
+let failed = false;
+
+for (const [modelId, files] of Object.entries(MODELS)) {
+    if (onlyModels.length > 0 && !onlyModels.includes(modelId)) continue;
+    for (const file of files) {
+        const target = join(PUBLIC, 'models', modelId, file);
+        if (!force && await exists(target)) {
+            console.log(`skip   ${modelId}/${file} (exists)`);
+            continue;
+        }
+        await mkdir(dirname(target), { recursive: true });
+        try {
+            await fetchModelFile(modelId, file, target);
+            console.log(`ok     ${modelId}/${file}`);
+        } catch (e) {
+            failed = true;
+            console.error(`FAILED ${modelId}/${file}: ${e.message}`);
+        }
+    }
+}
+
+const wasmSource = join(ROOT, 'node_modules', 'onnxruntime-web', 'dist');
+await mkdir(join(PUBLIC, 'ort'), { recursive: true });
+for (const file of WASM_FILES) {
+    try {
+        await copyFile(join(wasmSource, file), join(PUBLIC, 'ort', file));
+        console.log(`ok     ort/${file}`);
+    } catch (e) {
+        failed = true;
+        console.error(`FAILED ort/${file}: ${e.message}`);
+    }
+}
+
+if (failed) {
+    console.error('\nSome assets could not be prepared; the app will fall back to the network for them.');
+    process.exit(1);
+}
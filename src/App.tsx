@@ -1,9 +1,19 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { useBackgroundRemoval } from './hooks/useBackgroundRemoval';
-import { useObjectSegmenter, type SegmentedObject } from './hooks/useObjectSegmenter';
+import { useClassicBackgroundRemoval, DEFAULT_CLASSIC_OPTIONS, type BackgroundMethod, type ClassicRemovalOptions } from './hooks/useClassicBackgroundRemoval';
+import { useObjectSegmenter, DEFAULT_SEGMENTATION_OPTIONS, type SegmentedObject, type SegmentationOptions } from './hooks/useObjectSegmenter';
 import { LoadingScreen } from './components/LoadingScreen';
 import { Editor } from './components/Editor';
-import { Upload, ImageIcon } from 'lucide-react';
+import { SessionList } from './components/SessionList';
+import { ModelSourcePicker } from './components/ModelSourcePicker';
+import { BackgroundMethodPicker } from './components/BackgroundMethodPicker';
+import { BatchReport } from './components/BatchReport';
+import { PerspectiveCorrection } from './components/PerspectiveCorrection';
+import { loadSession, requestPersistentStorage, type SessionInfo } from './utils/sessionStore';
+import { importProject, ProjectBundleError, PROJECT_EXTENSION } from './utils/projectBundle';
+import { createBatchItems, describeError, isAbortError, isUnfinished, requeueItem, batchFraction, segmenterProgress, REMOVAL_STARTED, type BatchItem, type BatchResult, type DownloadProgress, type FileProgress } from './utils/batch';
+import type { BgRemoveStatus } from './workers/bg-remove.worker';
+import { Upload, ImageIcon, FolderOpen } from 'lucide-react';
 
 // New: Map to store source data
 export interface SourceData {
@@ -12,76 +22,221 @@ export interface SourceData {
   bitmap: ImageBitmap; // processed transparent bitmap
 }
 
+// Parallel background-removal workers for batches. Each one holds its own copy
+// of the model, so only machines with plenty of cores get more than one.
+const BG_WORKER_POOL_SIZE = Math.max(1, Math.min(3, Math.floor((navigator.hardwareConcurrency || 2) / 4)));
+
 function App() {
-  const { processImage, status: bgStatus, progress: bgProgress } = useBackgroundRemoval();
-  const { segmentImage, isSegmenting } = useObjectSegmenter();
+  const { processImage, status: bgStatus, error: bgError, modelSource, modelFiles, setModelSource, modelId, setModelId } = useBackgroundRemoval(BG_WORKER_POOL_SIZE);
+  const { removeBackground } = useClassicBackgroundRemoval();
+  const { segmentImage, isSegmenting, progress: segProgress } = useObjectSegmenter();
 
   // Multi-image state
   const [sourceImages, setSourceImages] = useState<Map<string, string>>(new Map());
   const [processedBitmaps, setProcessedBitmaps] = useState<Map<string, ImageBitmap>>(new Map());
   const [allSegments, setAllSegments] = useState<SegmentedObject[]>([]);
+  const [segmentationOptions, setSegmentationOptions] = useState<SegmentationOptions>(DEFAULT_SEGMENTATION_OPTIONS);
 
-  const [appState, setAppState] = useState<'upload' | 'processing' | 'editor'>('upload');
+  // Background removal used for the next upload: the AI model or a classical OpenCV pipeline
+  const [backgroundMethod, setBackgroundMethod] = useState<BackgroundMethod>('ai');
+  const [classicOptions, setClassicOptions] = useState<Omit<ClassicRemovalOptions, 'method'>>(DEFAULT_CLASSIC_OPTIONS);
 
-  // Batch progress state
-  const [currentFileIndex, setCurrentFileIndex] = useState(0);
-  const [totalFiles, setTotalFiles] = useState(0);
+  const [appState, setAppState] = useState<'upload' | 'processing' | 'report' | 'editor'>('upload');
+  const [correctPerspective, setCorrectPerspective] = useState(false);
+  // Uploads (from the start screen or the editor) waiting for their sheet corners before they are processed
+  const [perspectiveRequest, setPerspectiveRequest] = useState<{ files: File[]; resolve: (files: File[] | null) => void } | null>(null);
 
-  const handleFiles = useCallback(async (files: File[]) => {
-    if (files.length === 0) return;
+  // Saved session the editor writes to (IndexedDB)
+  const [session, setSession] = useState<SessionInfo | null>(null);
 
-    setTotalFiles(files.length);
-    setCurrentFileIndex(0);
-    setAppState('processing');
+  // Per-file status and progress of the current upload; kept after the batch for the report
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  // Bytes per model file, while transformers.js downloads them
+  const [modelDownloads, setModelDownloads] = useState<Record<string, DownloadProgress>>({});
+  const [batchStartedAt, setBatchStartedAt] = useState(0);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const batchAbortRef = useRef<AbortController | null>(null);
 
-    const newSourceImages = new Map(sourceImages);
-    const newProcessedBitmaps = new Map(processedBitmaps);
-    let newSegments: SegmentedObject[] = [...allSegments];
+  const updateBatchItem = (id: string, patch: Partial<BatchItem>) =>
+    setBatchItems(items => items.map(item => item.id === id ? { ...item, ...patch } : item));
 
-    try {
-      for (let i = 0; i < files.length; i++) {
-        setCurrentFileIndex(i + 1);
-        const file = files[i];
-        const sourceId = crypto.randomUUID();
-        const url = URL.createObjectURL(file);
+  const updateFileProgress = (id: string, patch: Partial<FileProgress>) =>
+    setBatchItems(items => items.map(item => item.id === id ? { ...item, progress: { ...item.progress, ...patch } } : item));
+
+  // Runs files through background removal and segmentation. New sources are merged into
+  // the app state right away; the new stamps are returned for the caller to place.
+  const processBatch = useCallback(async (items: BatchItem[]): Promise<BatchResult> => {
+    const batch = new AbortController();
+    batchAbortRef.current = batch;
+    setBatchStartedAt(Date.now());
+    setModelDownloads({});
+    setIsBatchRunning(true);
+
+    const addedSources = new Map<string, string>();
+    const addedBitmaps = new Map<string, ImageBitmap>();
+    let newSegments: SegmentedObject[] = [];
+    // Final status per file, returned alongside the stamps
+    const outcomes = new Map<string, Partial<BatchItem>>();
+    const finish = (id: string, patch: Partial<BatchItem>) => {
+      outcomes.set(id, patch);
+      updateBatchItem(id, patch);
+    };
+
+    const handleRemovalStatus = (id: string, status: BgRemoveStatus) => {
+      if (status.status === 'processing') {
+        updateBatchItem(id, { status: 'removing' });
+        updateFileProgress(id, { removal: REMOVAL_STARTED });
+      } else if (status.status === 'downloading' && status.file && status.total) {
+        const { file, loaded = 0, total } = status;
+        setModelDownloads(d => ({ ...d, [file]: { loaded, total } }));
+      }
+    };
 
-        newSourceImages.set(sourceId, url);
+    // Every background removal is queued up front so a worker pool can run them in
+    // parallel; segmentation then consumes the results in upload order.
+    const jobs = items.map(item => {
+      const url = URL.createObjectURL(item.file);
+      const bitmap = backgroundMethod === 'ai'
+        ? processImage(url, { signal: batch.signal, onStatus: status => handleRemovalStatus(item.id, status) })
+        : removeBackground(url, { ...classicOptions, method: backgroundMethod }, batch.signal);
+      bitmap.catch(() => { /* awaited below, per file */ });
+      return { item, url, bitmap };
+    });
 
+    for (const { item, url, bitmap: pendingBitmap } of jobs) {
+      if (batch.signal.aborted) {
+        URL.revokeObjectURL(url);
+        finish(item.id, { status: 'canceled' });
+        continue;
+      }
+
+      try {
         // 1. Remove Background
-        const bitmap = await processImage(url);
-        newProcessedBitmaps.set(sourceId, bitmap);
+        if (backgroundMethod !== 'ai') {
+          // The OpenCV worker runs its queue in upload order, so this job starts about when we get here
+          updateBatchItem(item.id, { status: 'removing' });
+          updateFileProgress(item.id, { removal: REMOVAL_STARTED });
+        }
+        const bitmap = await pendingBitmap;
+        updateFileProgress(item.id, { removal: 1 });
 
         // 2. Segment Objects
-        const segs = await segmentImage(bitmap, sourceId);
+        updateBatchItem(item.id, { status: 'segmenting' });
+        const segs = await segmentImage(bitmap, item.id, segmentationOptions,
+          (_progress, stage, fraction) => updateFileProgress(item.id, segmenterProgress(stage, fraction)));
+
+        addedSources.set(item.id, url);
+        addedBitmaps.set(item.id, bitmap);
         newSegments = [...newSegments, ...segs];
+        finish(item.id, { status: 'done', stampCount: segs.length, error: undefined });
+      } catch (e) {
+        // One bad file doesn't stop the batch; it is listed in the report for a retry
+        URL.revokeObjectURL(url);
+        if (isAbortError(e)) {
+          finish(item.id, { status: 'canceled' });
+        } else {
+          console.error(`Processing ${item.file.name} failed`, e);
+          finish(item.id, { status: 'failed', error: describeError(e) });
+        }
       }
+    }
+    batchAbortRef.current = null;
 
-      // Update State once
-      setSourceImages(newSourceImages);
-      setProcessedBitmaps(newProcessedBitmaps);
-      setAllSegments(newSegments);
-      setAppState('editor');
+    // Update State once; a canceled batch keeps everything that finished
+    setSourceImages(prev => new Map([...prev, ...addedSources]));
+    setProcessedBitmaps(prev => new Map([...prev, ...addedBitmaps]));
+    setIsBatchRunning(false);
+
+    return {
+      items: items.map(item => ({ ...item, ...outcomes.get(item.id) })),
+      segments: newSegments,
+    };
+  }, [processImage, removeBackground, segmentImage, segmentationOptions, backgroundMethod, classicOptions]);
+
+  const cancelBatch = () => batchAbortRef.current?.abort();
+
+  // Upload screen: process, then open the editor (or the report if anything is left over)
+  const runBatch = async (items: BatchItem[]) => {
+    if (items.length === 0) return;
+    setAppState('processing');
+    const result = await processBatch(items);
+    setAllSegments(prev => [...prev, ...result.segments]);
+    setAppState(result.items.some(isUnfinished) ? 'report' : 'editor');
+  };
+
+  // Editor: same pipeline, the editor appends the stamps to its own (undoable) list
+  const addImages = (items: BatchItem[]) => {
+    setBatchItems(items);
+    return processBatch(items);
+  };
+
+  // Resolves to the uploads to process, flattened or as they were, or null when the step is canceled
+  const flattenUploads = (files: File[]): Promise<File[] | null> => {
+    if (!correctPerspective) return Promise.resolve(files);
+    return new Promise(resolve => setPerspectiveRequest({ files, resolve }));
+  };
+
+  const finishPerspective = (files: File[] | null) => {
+    perspectiveRequest?.resolve(files);
+    setPerspectiveRequest(null);
+  };
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    if (!session) {
+      setSession({
+        id: crypto.randomUUID(),
+        name: files.length > 1 ? `${files[0].name} +${files.length - 1}` : files[0].name,
+        modelId,
+      });
+      requestPersistentStorage().catch(() => { /* best effort */ });
+    }
+
+    // The flattened photos replace the uploads, so they become the sources the stamps are cut from
+    const uploads = await flattenUploads(files);
+    if (!uploads) {
+      reset();
+      return;
+    }
+    const items = createBatchItems(uploads);
+    setBatchItems(items);
+    runBatch(items);
+  };
 
+  const retryFailed = () => {
+    setBatchItems(items => items.map(item => isUnfinished(item) ? requeueItem(item) : item));
+    runBatch(batchItems.filter(isUnfinished).map(requeueItem));
+  };
+
+  const closeReport = () => {
+    if (sourceImages.size > 0) setAppState('editor');
+    else reset();
+  };
+
+  const openProject = async (file: File) => {
+    try {
+      const project = await importProject(file);
+      setSourceImages(project.sourceImages);
+      setProcessedBitmaps(project.processedBitmaps);
+      setAllSegments(project.segments);
+      // Imported projects get their own local session
+      setSession({ id: crypto.randomUUID(), name: project.name, modelId: project.modelId });
+      if (project.modelId) setModelId(project.modelId);
+      setAppState('editor');
     } catch (e) {
-      console.error("Batch processing failed", e);
-      alert("Some images failed to process.");
-      setAppState('editor'); // Go to editor anyway with what we have? Or back to upload?
-      // If we have some segments, go to editor.
-      if (newSegments.length > 0) {
-        setSourceImages(newSourceImages);
-        setProcessedBitmaps(newProcessedBitmaps);
-        setAllSegments(newSegments);
-        setAppState('editor');
-      } else {
-        setAppState('upload');
-      }
+      console.error("Project import failed", e);
+      alert(e instanceof ProjectBundleError ? e.message : "The project file could not be opened.");
     }
-  }, [processImage, segmentImage, sourceImages, processedBitmaps, allSegments]);
+  };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     if (e.dataTransfer.files?.length > 0) {
-      handleFiles(Array.from(e.dataTransfer.files));
+      const files = Array.from(e.dataTransfer.files);
+      const project = files.find(f => f.name.endsWith(PROJECT_EXTENSION));
+      if (project) openProject(project);
+      else handleFiles(files);
     }
   };
 
@@ -91,36 +246,102 @@ function App() {
     }
   };
 
+  // The editor has already dropped the source's stamps
+  const removeSource = (sourceId: string) => {
+    const url = sourceImages.get(sourceId);
+    if (url) URL.revokeObjectURL(url);
+    processedBitmaps.get(sourceId)?.close();
+    setSourceImages(prev => {
+      const next = new Map(prev);
+      next.delete(sourceId);
+      return next;
+    });
+    setProcessedBitmaps(prev => {
+      const next = new Map(prev);
+      next.delete(sourceId);
+      return next;
+    });
+  };
+
   const reset = () => {
     setSourceImages(new Map());
     setProcessedBitmaps(new Map());
     setAllSegments([]);
+    setSession(null);
     setAppState('upload');
   };
 
-  // Determine Loading Status
-  const isWorkerBusy = bgStatus === 'loading' || bgStatus === 'downloading' || bgStatus === 'processing';
-  const isLoading = appState === 'processing' || isWorkerBusy || isSegmenting;
+  const resumeSession = async (id: string) => {
+    try {
+      const loaded = await loadSession(id);
+      setSourceImages(loaded.sourceImages);
+      setProcessedBitmaps(loaded.processedBitmaps);
+      setAllSegments(loaded.segments);
+      setSession({ id: loaded.id, name: loaded.name, modelId: loaded.modelId });
+      // Images added to this session later should go through the same model
+      if (loaded.modelId) setModelId(loaded.modelId);
+      setAppState('editor');
+    } catch (e) {
+      console.error("Failed to resume session", e);
+      alert("This saved session could not be loaded.");
+    }
+  };
 
-  // Calculate aggregated progress
-  const singleFileProgress = bgStatus === 'downloading' ? bgProgress : (isSegmenting ? 90 : (bgStatus === 'processing' ? 50 : 0));
-  // Total progress roughly: ((currentIndex - 1) * 100 + singleProgress) / total
-  const totalProgress = totalFiles > 0
-    ? ((currentFileIndex - 1) * 100 + singleFileProgress) / totalFiles
-    : 0;
+  // Determine Loading Status
+  // Background work outside a batch (re-running segmentation in the editor) also shows the overlay
+  const isLoading = appState === 'processing' || isBatchRunning || isSegmenting;
 
-  let loadingText = `Processing image ${currentFileIndex} of ${totalFiles}...`;
-  if (bgStatus === 'loading' || bgStatus === 'downloading') loadingText = "Loading AI Model...";
+  let loadingText = 'Finding stamps...';
+  if (isBatchRunning) {
+    const finished = batchItems.filter(item => item.status === 'done' || item.status === 'failed' || item.status === 'canceled').length;
+    loadingText = `Processing image ${Math.min(finished + 1, batchItems.length)} of ${batchItems.length}...`;
+    if (bgStatus === 'loading' || bgStatus === 'downloading') loadingText = "Loading AI Model...";
+  }
 
   return (
     <div className="min-h-screen bg-neo-white font-sans text-neo-black">
-      {isLoading && <LoadingScreen progress={totalProgress} status={loadingText} />}
+      {isLoading && (
+        isBatchRunning
+          ? (
+            <LoadingScreen
+              progress={batchFraction(batchItems) * 100}
+              status={loadingText}
+              items={batchItems}
+              downloads={modelDownloads}
+              startedAt={batchStartedAt}
+              onCancel={cancelBatch}
+            />
+          )
+          : <LoadingScreen progress={segProgress} status={loadingText} />
+      )}
+
+      {perspectiveRequest && (
+        <PerspectiveCorrection
+          files={perspectiveRequest.files}
+          onDone={finishPerspective}
+          onCancel={() => finishPerspective(null)}
+        />
+      )}
+
+      {appState === 'report' && !isLoading && (
+        <BatchReport items={batchItems} onRetryFailed={retryFailed} onContinue={closeReport} />
+      )}
 
       {appState === 'editor' && (
         <Editor
           sourceImages={sourceImages}
           processedBitmaps={processedBitmaps}
           initialSegments={allSegments}
+          session={session}
+          segmentationOptions={segmentationOptions}
+          onSegmentationOptionsChange={setSegmentationOptions}
+          onAddImages={addImages}
+          correctPerspective={correctPerspective}
+          onCorrectPerspectiveChange={setCorrectPerspective}
+          onFlattenUploads={flattenUploads}
+          onRemoveSource={removeSource}
+          modelSource={modelSource}
+          modelFiles={modelFiles}
           onReset={reset}
         />
       )}
@@ -145,6 +366,58 @@ function App() {
               <input type="file" className="hidden" accept="image/*" multiple onChange={handleInputChange} />
             </label>
 
+            <label className="mt-3 cursor-pointer flex items-center justify-center gap-2 text-sm font-bold underline">
+              <FolderOpen size={16} />
+              <span>OPEN PROJECT ({PROJECT_EXTENSION})</span>
+              <input
+                type="file"
+                className="hidden"
+                accept={`${PROJECT_EXTENSION},.zip`}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) openProject(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+
+            <label
+              className="mt-4 flex items-center justify-center gap-2 text-[10px] font-bold"
+              title="Mark the sheet corners of photos taken at an angle and flatten them before processing"
+            >
+              <input
+                type="checkbox"
+                checked={correctPerspective}
+                onChange={(e) => setCorrectPerspective(e.target.checked)}
+                className="accent-neo-black"
+              />
+              CORRECT PERSPECTIVE
+            </label>
+
+            <BackgroundMethodPicker
+              method={backgroundMethod}
+              onMethodChange={setBackgroundMethod}
+              options={classicOptions}
+              onOptionsChange={setClassicOptions}
+            />
+
+            {backgroundMethod === 'ai' && (
+              <ModelSourcePicker
+                source={modelSource}
+                onChange={setModelSource}
+                modelId={modelId}
+                onModelChange={setModelId}
+              />
+            )}
+
+            {bgError && (
+              <div className="mt-4 border-3 border-black bg-neo-pink text-white text-left text-sm font-bold p-3">
+                {bgError}
+              </div>
+            )}
+
+            <SessionList onResume={resumeSession} />
+
             <div className="mt-8 text-sm opacity-60 font-bold border-t-2 border-black pt-4">
               POWERED BY TRANSFORMERS.JS
             </div>
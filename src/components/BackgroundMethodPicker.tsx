@@ -0,0 +1,65 @@
+import type { BackgroundMethod, ClassicRemovalOptions } from '../hooks/useClassicBackgroundRemoval';
+
+interface BackgroundMethodPickerProps {
+    method: BackgroundMethod;
+    onMethodChange: (method: BackgroundMethod) => void;
+    options: Omit<ClassicRemovalOptions, 'method'>;
+    onOptionsChange: (options: Omit<ClassicRemovalOptions, 'method'>) => void;
+}
+
+const METHODS: { value: BackgroundMethod; label: string; hint: string }[] = [
+    { value: 'ai', label: 'AI', hint: 'AI model: any background, slower' },
+    { value: 'color', label: 'PAPER COLOR', hint: 'Remove everything close to the paper color sampled at the edges' },
+    { value: 'threshold', label: 'THRESHOLD', hint: 'Adaptive threshold against the paper, good for uneven lighting' },
+    { value: 'grabcut', label: 'GRABCUT', hint: 'OpenCV GrabCut seeded from the paper color' },
+    { value: 'flood', label: 'FLOOD FILL', hint: 'Flood the paper in from the image edges; keeps white inside stamps' },
+];
+
+export const BackgroundMethodPicker = ({ method, onMethodChange, options, onOptionsChange }: BackgroundMethodPickerProps) => {
+    return (
+        <div className="mt-4 text-[10px] font-bold">
+            <div className="flex flex-wrap items-center justify-center gap-1">
+                <span className="mr-1">BACKGROUND:</span>
+                {METHODS.map(m => (
+                    <button
+                        key={m.value}
+                        onClick={() => onMethodChange(m.value)}
+                        title={m.hint}
+                        className={`px-2 py-1 border-2 border-black ${method === m.value ? 'bg-neo-black text-white' : 'bg-white hover:bg-gray-100'}`}
+                    >
+                        {m.label}
+                    </button>
+                ))}
+            </div>
+
+            {method !== 'ai' && (
+                <div className="flex items-center justify-center gap-4 mt-2">
+                    <label className="flex items-center gap-1">
+                        TOLERANCE
+                        <input
+                            type="range"
+                            min="0"
+                            max="100"
+                            value={options.tolerance}
+                            onChange={(e) => onOptionsChange({ ...options, tolerance: Number(e.target.value) })}
+                            className="w-20 accent-neo-black"
+                        />
+                        <span className="w-6 text-right">{options.tolerance}</span>
+                    </label>
+                    <label className="flex items-center gap-1">
+                        FEATHER
+                        <input
+                            type="range"
+                            min="0"
+                            max="5"
+                            value={options.feather}
+                            onChange={(e) => onOptionsChange({ ...options, feather: Number(e.target.value) })}
+                            className="w-16 accent-neo-black"
+                        />
+                        <span className="w-6 text-right">{options.feather}px</span>
+                    </label>
+                </div>
+            )}
+        </div>
+    );
+};
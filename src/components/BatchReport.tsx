@@ -0,0 +1,61 @@
+import { CheckCircle2, XCircle, Ban, RotateCcw, ArrowRight } from 'lucide-react';
+import { isUnfinished, type BatchItem } from '../utils/batch';
+
+interface BatchReportProps {
+    items: BatchItem[];
+    onRetryFailed: () => void;
+    onContinue: () => void;
+    continueLabel?: string; // defaults to where the upload flow goes next
+}
+
+export const BatchReport = ({ items, onRetryFailed, onContinue, continueLabel }: BatchReportProps) => {
+    const unfinished = items.filter(isUnfinished);
+    const failed = items.filter(i => i.status === 'failed');
+    const done = items.filter(i => i.status === 'done');
+    const canceled = items.filter(i => i.status === 'canceled');
+
+    return (
+        <div className="fixed inset-0 z-40 flex items-center justify-center p-4 bg-neo-white/90">
+            <div className="bg-white p-6 border-4 border-neo-black shadow-neo-lg max-w-xl w-full">
+                <h1 className="text-2xl font-black uppercase mb-1">Batch Report</h1>
+                <p className="font-bold text-sm mb-4">
+                    {done.length} of {items.length} images processed · {failed.length} failed
+                    {canceled.length > 0 && ` · ${canceled.length} canceled`}
+                </p>
+
+                <ul className="flex flex-col gap-2 max-h-[50vh] overflow-y-auto mb-6">
+                    {items.map(item => (
+                        <li key={item.id} className={`flex items-start gap-2 border-2 border-black p-2 ${item.status === 'failed' ? 'bg-neo-pink text-white' : item.status === 'canceled' ? 'bg-neo-white opacity-60' : 'bg-neo-white'}`}>
+                            {item.status === 'failed'
+                                ? <XCircle size={18} className="shrink-0" />
+                                : item.status === 'canceled'
+                                    ? <Ban size={18} className="shrink-0" />
+                                    : <CheckCircle2 size={18} className="shrink-0" />}
+                            <div className="flex-1 min-w-0">
+                                <div className="font-bold text-sm truncate">{item.file.name}</div>
+                                <div className="text-[10px] font-bold opacity-80">
+                                    {item.status === 'failed'
+                                        ? item.error
+                                        : item.status === 'canceled'
+                                            ? 'CANCELED'
+                                            : item.stampCount === 0 ? 'NO STAMPS FOUND' : `${item.stampCount} STAMPS`}
+                                </div>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+
+                <div className="flex justify-end gap-2">
+                    {unfinished.length > 0 && (
+                        <button onClick={onRetryFailed} className="neo-btn flex items-center gap-2 bg-neo-yellow">
+                            <RotateCcw size={16} /> {unfinished.length > failed.length ? 'RETRY UNFINISHED' : 'RETRY FAILED'} ({unfinished.length})
+                        </button>
+                    )}
+                    <button onClick={onContinue} className="neo-btn flex items-center gap-2">
+                        {continueLabel ?? (done.length > 0 ? 'CONTINUE TO EDITOR' : 'BACK TO UPLOAD')} <ArrowRight size={16} />
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,95 +1,480 @@
 import { useState, useRef, useEffect } from 'react';
-import type { SegmentedObject } from '../hooks/useObjectSegmenter';
+import { MousePointer2, SquareDashed, Combine, Scissors, Undo2, Redo2, ImagePlus, Hand, ZoomIn, ZoomOut, MousePointerClick, RotateCcw, RotateCw, FlipHorizontal2, FlipVertical2 } from 'lucide-react';
+import { useHistory } from '../hooks/useHistory';
+import { useZoomPan } from '../hooks/useZoomPan';
+import { useSessionAutosave } from '../hooks/useSessionAutosave';
+import { useObjectSegmenter, type SegmentedObject, type SegmentationOptions } from '../hooks/useObjectSegmenter';
+import { usePromptSegmenter, type PromptPoint, type PromptStatus, type SegmentPrompt } from '../hooks/usePromptSegmenter';
 import { ResultGrid } from './ResultGrid';
-import { StampEditorModal } from './StampEditorModal';
+import { SegmentationSettings } from './SegmentationSettings';
+import { RegionOverlay, type OverlayMode } from './RegionOverlay';
+import { StampEditorModal, type StampEdit } from './StampEditorModal';
+import { BatchReport } from './BatchReport';
+import { SourceStrip } from './SourceStrip';
+import { Minimap } from './Minimap';
+import { SourceView, type SourceViewMode } from './SourceView';
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
+import { renderStamp, DEFAULT_SHAPE_OPTIONS, type CropShape, type ShapeOptions } from '../utils/stampRenderer';
+import { cropSegment, cropWithMask, mergeSegments, recropSegment, type Box } from '../utils/regionCrop';
+import { detectStampRotation, withOrientation, type StampOrientation } from '../utils/stampOrientation';
+import { exportProject, PROJECT_EXTENSION } from '../utils/projectBundle';
+import type { SessionInfo } from '../utils/sessionStore';
+import type { ModelSource } from '../utils/modelSource';
+import { createBatchItems, isUnfinished, requeueItem, type BatchItem, type BatchResult } from '../utils/batch';
+
+const SOURCE_VIEW_MODES: { mode: SourceViewMode; label: string; title: string }[] = [
+    { mode: 'original', label: 'ORIGINAL', title: 'The uploaded image' },
+    { mode: 'transparent', label: 'RESULT', title: 'Background removed, on a checkerboard' },
+    { mode: 'mask', label: 'ALPHA', title: 'Alpha heatmap: blue removed, pink partly kept, yellow kept' },
+    { mode: 'split', label: 'SPLIT', title: 'Drag the divider to compare result and original' },
+];
+
+const PROMPT_STATUS_LABELS: Record<PromptStatus, string> = {
+    idle: '',
+    loading: 'LOADING MODEL...',
+    downloading: 'DOWNLOADING MODEL',
+    encoding: 'ANALYZING IMAGE...',
+    decoding: 'SEGMENTING...',
+    error: 'FAILED',
+};
+
+// Click-to-refine prompts collected for one stamp; targetId is null until the first result
+interface PromptSession extends SegmentPrompt {
+    sourceId: string;
+    targetId: string | null;
+}
 
 interface EditorProps {
     sourceImages: Map<string, string>; // sourceId -> original blob url
     processedBitmaps: Map<string, ImageBitmap>; // sourceId -> transparent bitmap
     initialSegments: SegmentedObject[];
+    session: SessionInfo | null; // autosave target
+    segmentationOptions: SegmentationOptions;
+    onSegmentationOptionsChange: (options: SegmentationOptions) => void;
+    onAddImages: (items: BatchItem[]) => Promise<BatchResult>; // runs the upload pipeline, adds the sources
+    correctPerspective: boolean; // added photos go through the perspective step first
+    onCorrectPerspectiveChange: (enabled: boolean) => void;
+    onFlattenUploads: (files: File[]) => Promise<File[] | null>; // null when the perspective step is canceled
+    onRemoveSource: (sourceId: string) => void; // drops the original and processed bitmap
+    modelSource: ModelSource; // where the click-to-refine model is loaded from
+    modelFiles: Map<string, File> | null;
     onReset: () => void;
 }
 
-export const Editor = ({ sourceImages, processedBitmaps, initialSegments, onReset }: EditorProps) => {
-    const [segments, setSegments] = useState<SegmentedObject[]>(initialSegments);
-    const [selectedId, setSelectedId] = useState<string | null>(null);
-    const [cropShape, setCropShape] = useState<'original' | 'square' | 'circle'>('original');
+export const Editor = ({ sourceImages, processedBitmaps, initialSegments, session, segmentationOptions, onSegmentationOptionsChange, onAddImages, correctPerspective, onCorrectPerspectiveChange, onFlattenUploads, onRemoveSource, modelSource, modelFiles, onReset }: EditorProps) => {
+    // Every change to the stamp list goes through the history so it can be undone
+    const history = useHistory<SegmentedObject[]>(initialSegments);
+    const segments = history.state;
+    const setSegments = history.commit;
+
+    // Crops replaced by a box edit stay alive while undo/redo can still bring them back
+    const supersededUrlsRef = useRef(new Set<string>());
+    useEffect(() => {
+        const superseded = supersededUrlsRef.current;
+        if (superseded.size === 0) return;
+        const live = new Set(history.snapshots.flatMap(list => list.map(s => s.url)));
+        for (const url of superseded) {
+            if (live.has(url)) continue;
+            URL.revokeObjectURL(url);
+            superseded.delete(url);
+        }
+    }, [history.snapshots]);
+    const { status: saveStatus } = useSessionAutosave(session, sourceImages, processedBitmaps, segments);
+    const { segmentImage, isSegmenting, progress: segmentProgress } = useObjectSegmenter();
+    const promptSegmenter = usePromptSegmenter(modelSource, modelFiles);
+    const { segmentWithPrompt } = promptSegmenter;
+    // Last entry is the primary selection; shift-click adds more for merging
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const selectedId = selectedIds.length > 0 ? selectedIds[selectedIds.length - 1] : null;
+    const setSelectedId = (id: string | null) => setSelectedIds(id ? [id] : []);
+    const [viewSourceId, setViewSourceId] = useState<string | null>(null);
+    const [showCurrentSourceOnly, setShowCurrentSourceOnly] = useState(false);
+    // Sources whose stamps are being replaced by a segmentation re-run
+    const [busySourceIds, setBusySourceIds] = useState<Set<string>>(new Set());
+    const [overlayMode, setOverlayMode] = useState<OverlayMode>('select');
+    const [sourceViewMode, setSourceViewMode] = useState<SourceViewMode>('original');
+    const [split, setSplit] = useState(0.5);
+    const [shapeOptions, setShapeOptions] = useState<ShapeOptions>(DEFAULT_SHAPE_OPTIONS);
+    const cropShape = shapeOptions.shape;
+    const setCropShape = (shape: CropShape) => setShapeOptions(prev => ({ ...prev, shape }));
 
     // Edit Modal State
     const [editingSegment, setEditingSegment] = useState<SegmentedObject | null>(null);
 
+    // Adding images: report of the last run when some files didn't make it
+    const [addReport, setAddReport] = useState<BatchItem[] | null>(null);
+    const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+
     // Determine current source based on selection
     const selectedSegment = segments.find(s => s.id === selectedId);
 
     // Get distinct sourceIds
     const sourceIds = Array.from(sourceImages.keys());
-    const currentSourceId = selectedSegment ? selectedSegment.sourceId : (sourceIds.length > 0 ? sourceIds[0] : null);
+    // Read when a re-run finishes, so it can't bring back a source removed meanwhile
+    const sourceImagesRef = useRef(sourceImages);
+    useEffect(() => {
+        sourceImagesRef.current = sourceImages;
+    });
+    const fallbackSourceId = viewSourceId && sourceImages.has(viewSourceId) ? viewSourceId : (sourceIds.length > 0 ? sourceIds[0] : null);
+    const currentSourceId = selectedSegment ? selectedSegment.sourceId : fallbackSourceId;
 
     const currentOriginalImage = currentSourceId ? sourceImages.get(currentSourceId) : null;
     const currentBitmap = currentSourceId ? processedBitmaps.get(currentSourceId) : null;
 
     // Filter overlay segments to only show those belonging to the current source image
     const currentViewSegments = segments.filter(s => s.sourceId === currentSourceId);
+    const gridSegments = showCurrentSourceOnly ? currentViewSegments : segments;
 
-    // Image & Scaling Refs
-    const imageRef = useRef<HTMLImageElement>(null);
-    const [scale, setScale] = useState(1);
-    const [overlayDims, setOverlayDims] = useState({ width: 0, height: 0, top: 0, left: 0 });
+    const sourceSummaries = sourceIds.map(id => ({
+        id,
+        url: sourceImages.get(id)!,
+        stampCount: segments.reduce((n, s) => n + (s.sourceId === id ? 1 : 0), 0),
+        busy: busySourceIds.has(id),
+    }));
 
-    useEffect(() => {
-        const updateDims = () => {
-            const img = imageRef.current;
-            if (img && currentBitmap) {
-                const rect = img.getBoundingClientRect();
-                // Rendered dimensions
-                setOverlayDims({
-                    width: rect.width,
-                    height: rect.height,
-                    top: 0, // Relative to parent
-                    left: 0
-                });
+    // Zoom & pan of the canvas; boxes are laid out in image px times the zoom
+    const viewportRef = useRef<HTMLDivElement>(null);
+    const imageWidth = currentBitmap?.width ?? 0;
+    const imageHeight = currentBitmap?.height ?? 0;
+    const zoomPan = useZoomPan(viewportRef, imageWidth, imageHeight, {
+        panWithPrimary: overlayMode === 'pan',
+        resetKey: currentSourceId,
+    });
+    const { view } = zoomPan;
+    const isZoomedIn = imageWidth * view.zoom > zoomPan.viewportSize.width || imageHeight * view.zoom > zoomPan.viewportSize.height;
 
-                // Calculate Scale: Rendered Width / Natural Width
-                const s = rect.width / img.naturalWidth;
-                setScale(s);
-            }
-        };
+    // Click-to-refine session, dropped when leaving the mode or switching images
+    const [prompt, setPrompt] = useState<PromptSession | null>(null);
+    const promptKey = overlayMode === 'prompt' ? currentSourceId : null;
+    const [lastPromptKey, setLastPromptKey] = useState(promptKey);
+    if (lastPromptKey !== promptKey) {
+        setLastPromptKey(promptKey);
+        setPrompt(null);
+    }
+    // Only the latest click's result is applied; earlier ones still in flight are dropped
+    const promptRunRef = useRef(0);
+
+    const handleRemove = (id: string) => {
+        const newSegments = segments.filter(s => s.id !== id);
+        setSegments('Remove stamp', newSegments);
+        setSelectedIds(prev => prev.filter(s => s !== id));
+    };
+
+    // Swaps with the neighbour in the grid as shown, which may be filtered to one source
+    const handleMove = (id: string, offset: -1 | 1) => {
+        const visible = gridSegments.findIndex(s => s.id === id);
+        const neighbour = gridSegments[visible + offset];
+        if (visible < 0 || !neighbour) return;
+        setSegments('Reorder stamps', prev => {
+            const from = prev.findIndex(s => s.id === id);
+            const to = prev.findIndex(s => s.id === neighbour.id);
+            if (from < 0 || to < 0) return prev;
+            const next = [...prev];
+            [next[from], next[to]] = [next[to], next[from]];
+            return next;
+        });
+    };
+
+    // The selection decides which source is shown, so switching sources clears it
+    const selectSource = (sourceId: string) => {
+        setViewSourceId(sourceId);
+        if (selectedSegment?.sourceId !== sourceId) setSelectedIds([]);
+    };
 
-        updateDims();
-        window.addEventListener('resize', updateDims);
+    // Not undoable: the original image and its bitmap are released
+    const handleRemoveSource = (sourceId: string) => {
+        if (busySourceIds.has(sourceId)) return;
+        const count = segments.filter(s => s.sourceId === sourceId).length;
+        const index = sourceIds.indexOf(sourceId);
+        if (!confirm(`Remove image ${index + 1} and its ${count} stamps? This can't be undone.`)) return;
 
-        const img = imageRef.current;
-        if (img) {
-            img.onload = updateDims;
+        // Purge the stamps from every history step so undo can't bring back stamps without a source
+        history.rewrite(list => list.filter(s => s.sourceId !== sourceId));
+        setSelectedIds(prev => prev.filter(id => segments.find(s => s.id === id)?.sourceId !== sourceId));
+        if (currentSourceId === sourceId) {
+            const remaining = sourceIds.filter(id => id !== sourceId);
+            setViewSourceId(remaining[Math.min(index, remaining.length - 1)] ?? null);
         }
+        promptSegmenter.forgetSource(sourceId);
+        onRemoveSource(sourceId);
+    };
+
+    const handleSelect = (id: string | null, additive: boolean) => {
+        if (currentSourceId) setViewSourceId(currentSourceId);
+        if (!id) return setSelectedIds([]);
+        if (!additive) return setSelectedId(id);
+        setSelectedIds(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+    };
 
-        // Use ResizeObserver for more robust sizing
-        let observer: ResizeObserver | null = null;
-        if (img) {
-            observer = new ResizeObserver(updateDims);
-            observer.observe(img);
+    // Manual region edits: new and moved boxes are cropped from the processed bitmap
+    const handleCreateRegion = async (box: Box) => {
+        if (!currentSourceId || !currentBitmap) return;
+        let seg: SegmentedObject;
+        try {
+            seg = await cropSegment(currentBitmap, currentSourceId, box);
+        } catch (e) {
+            console.error("Adding a stamp failed", e);
+            alert("The stamp could not be cut out of this region.");
+            return;
         }
+        setSegments('Add stamp', prev => [...prev, seg]);
+        setSelectedId(seg.id);
+        setOverlayMode('select');
+    };
+
+    const handleChangeRegion = async (id: string, box: Box) => {
+        const seg = segments.find(s => s.id === id);
+        const bitmap = seg ? processedBitmaps.get(seg.sourceId) : null;
+        if (!seg || !bitmap) return;
+        let updated: SegmentedObject;
+        try {
+            updated = withOrientation(await recropSegment(bitmap, seg, box), seg);
+        } catch (e) {
+            console.error("Editing the stamp box failed", e);
+            alert("The stamp could not be cropped to the new box.");
+            return;
+        }
+        supersededUrlsRef.current.add(seg.url);
+        setSegments('Edit stamp box', prev => prev.map(s => s.id === id ? updated : s));
+    };
+
+    // Click-to-refine: each click re-segments with every prompt so far. A stamp that is
+    // selected when the session starts is refined in place (its box is the first
+    // prompt); otherwise the first result becomes a new stamp.
+    const runPrompt = async (next: PromptSession) => {
+        setPrompt(next);
+        const imageUrl = sourceImages.get(next.sourceId);
+        if (!imageUrl) return;
+
+        const run = ++promptRunRef.current;
+        let seg: SegmentedObject;
+        try {
+            const mask = await segmentWithPrompt(next.sourceId, imageUrl, next);
+            if (!mask || run !== promptRunRef.current) return;
+            seg = await cropWithMask(imageUrl, next.sourceId, mask, segmentationOptions.padding, next.targetId ?? undefined);
+        } catch {
+            return; // shown by the prompt bar
+        }
+        if (run !== promptRunRef.current) return;
+
+        // The target may have been undone meanwhile; it comes back as a new stamp then
+        setSegments(next.targetId ? 'Refine stamp with clicks' : 'Add stamp from clicks', prev =>
+            prev.some(s => s.id === seg.id) ? prev.map(s => s.id === seg.id ? withOrientation(seg, s) : s) : [...prev, seg]
+        );
+        setSelectedId(seg.id);
+        setPrompt(prev => prev && { ...prev, targetId: seg.id });
+    };
 
-        return () => {
-            window.removeEventListener('resize', updateDims);
-            if (observer) observer.disconnect();
+    const startPrompt = (): PromptSession | null => {
+        if (prompt) return prompt;
+        if (!currentSourceId) return null;
+        const target = selectedSegment ?? null;
+        return {
+            sourceId: currentSourceId,
+            targetId: target?.id ?? null,
+            points: [],
+            box: target ? { x: target.x, y: target.y, width: target.width, height: target.height } : null,
         };
-    }, [currentOriginalImage, currentBitmap]);
+    };
 
-    const handleRemove = (id: string) => {
-        const newSegments = segments.filter(s => s.id !== id);
-        setSegments(newSegments);
-        if (selectedId === id) setSelectedId(null);
+    const handlePromptPoint = (point: PromptPoint) => {
+        const base = startPrompt();
+        if (base) runPrompt({ ...base, points: [...base.points, point] });
+    };
+
+    const handlePromptBox = (box: Box) => {
+        const base = startPrompt();
+        if (base) runPrompt({ ...base, box });
+    };
+
+    // Next clicks outline another object
+    const handleNewPrompt = () => {
+        promptRunRef.current++;
+        setPrompt(null);
+        setSelectedIds([]);
+    };
+
+    // Turning only changes how the stamp is rendered; its crop and box stay as they are.
+    // Rotations are in output space, so with the stamp mirrored they run the other way.
+    const orientSelected = (label: string, change: (current: StampOrientation) => StampOrientation) => {
+        const seg = selectedSegment;
+        if (!seg) return;
+        const next = change({ rotation: seg.rotation ?? 0, flipX: !!seg.flipX });
+        setSegments(label, prev => prev.map(s => s.id === seg.id ? withOrientation(s, next) : s));
+    };
+
+    const rotateSelected = (degrees: number) =>
+        orientSelected('Rotate stamp', ({ rotation = 0, flipX }) => ({ rotation: rotation + (flipX ? -degrees : degrees), flipX }));
+
+    // A vertical flip is a horizontal one turned half around
+    const flipSelected = (vertical: boolean) =>
+        orientSelected('Flip stamp', ({ rotation = 0, flipX }) => ({ rotation: vertical ? rotation + 180 : rotation, flipX: !flipX }));
+
+    // Keeps any quarter turns the stamp already has and only takes out the tilt
+    const handleStraighten = async () => {
+        const seg = selectedSegment;
+        if (!seg) return;
+        const tilt = await detectStampRotation(seg.url, segmentationOptions.alphaThreshold);
+        if (tilt === null) {
+            alert("This stamp has no straight edges to line up. Rotate it by hand instead.");
+            return;
+        }
+        orientSelected('Straighten stamp', ({ rotation = 0, flipX }) => ({ rotation: Math.round((rotation - tilt) / 90) * 90 + tilt, flipX }));
+    };
+
+    const mergeCandidates = segments.filter(s => selectedIds.includes(s.id) && s.sourceId === currentSourceId);
+
+    const handleMerge = async () => {
+        if (mergeCandidates.length < 2 || !currentSourceId || !currentBitmap) return;
+        let merged: SegmentedObject;
+        try {
+            merged = await mergeSegments(currentBitmap, mergeCandidates);
+        } catch (e) {
+            console.error("Merge failed", e);
+            alert("The selected stamps could not be merged.");
+            return;
+        }
+        const mergedIds = new Set(mergeCandidates.map(s => s.id));
+
+        // The merged stamp takes the place of the first one in the list
+        setSegments('Merge stamps', prev => {
+            const first = prev.findIndex(s => mergedIds.has(s.id));
+            const rest = prev.filter(s => !mergedIds.has(s.id));
+            rest.splice(first, 0, merged);
+            return rest;
+        });
+        setSelectedId(merged.id);
+    };
+
+    // Splits a stamp the dilation glued together by re-segmenting its own pixels
+    // (mask edits included) with progressively smaller merge distances until it falls apart.
+    const handleSplit = async () => {
+        const seg = selectedSegment;
+        if (!seg) return;
+
+        const radius = segmentationOptions.dilationRadius;
+        let region: ImageBitmap | null = null;
+        let pieces: SegmentedObject[] = [];
+        try {
+            region = await createImageBitmap(await (await fetch(seg.url)).blob());
+            for (const r of [Math.floor(radius / 2), Math.floor(radius / 4), 1]) {
+                pieces = await segmentImage(region, seg.sourceId, { ...segmentationOptions, dilationRadius: r });
+                if (pieces.length >= 2) break;
+            }
+        } catch (e) {
+            console.error("Split failed", e);
+            alert("Segmentation failed while splitting this stamp.");
+            return;
+        } finally {
+            region?.close();
+        }
+
+        if (pieces.length < 2) {
+            alert("Couldn't find a gap to split this stamp. Try resizing the box or drawing the parts manually.");
+            return;
+        }
+
+        const placed = pieces.map(p => ({ ...p, x: p.x + seg.x, y: p.y + seg.y }));
+        setSegments('Split stamp', prev => prev.flatMap(s => s.id === seg.id ? placed : [s]));
+        setSelectedIds(placed.map(p => p.id));
+    };
+
+    // Re-run segmentation on the already processed bitmaps (no RMBG pass) and
+    // replace the stamps of those sources, keeping their position in the list.
+    const resegment = async (sourceIds: string[]) => {
+        const fresh = new Map<string, SegmentedObject[]>();
+        let failed = 0;
+        setBusySourceIds(new Set(sourceIds));
+        try {
+            for (const sourceId of sourceIds) {
+                const bitmap = processedBitmaps.get(sourceId);
+                try {
+                    if (bitmap) fresh.set(sourceId, await segmentImage(bitmap, sourceId, segmentationOptions));
+                } catch (e) {
+                    // That source keeps the stamps it had
+                    console.error(`Re-running segmentation on ${sourceId} failed`, e);
+                    failed++;
+                }
+                setBusySourceIds(prev => {
+                    const next = new Set(prev);
+                    next.delete(sourceId);
+                    return next;
+                });
+            }
+        } finally {
+            setBusySourceIds(new Set());
+        }
+
+        // Stamps of a source removed while the run went on have no image to belong to
+        for (const [sourceId, replacement] of fresh) {
+            if (sourceImagesRef.current.has(sourceId)) continue;
+            replacement.forEach(seg => URL.revokeObjectURL(seg.url));
+            fresh.delete(sourceId);
+        }
+
+        setSegments('Re-run segmentation', prev => {
+            const next: SegmentedObject[] = [];
+            const inserted = new Set<string>();
+            for (const seg of prev) {
+                const replacement = fresh.get(seg.sourceId);
+                if (!replacement) {
+                    next.push(seg);
+                } else if (!inserted.has(seg.sourceId)) {
+                    inserted.add(seg.sourceId);
+                    next.push(...replacement);
+                }
+            }
+            // Sources that previously had no stamps go at the end
+            for (const [sourceId, replacement] of fresh) {
+                if (!inserted.has(sourceId)) next.push(...replacement);
+            }
+            return next;
+        });
+        if (selectedSegment && fresh.has(selectedSegment.sourceId)) setSelectedId(null);
+        if (failed > 0) alert(`Segmentation failed on ${failed} image(s); their stamps were left as they were.`);
+    };
+
+    // New stamps are appended as one undoable step; selection and manual edits are untouched
+    const runAddImages = async (items: BatchItem[]) => {
+        if (items.length === 0) return;
+        const result = await onAddImages(items);
+        if (result.segments.length > 0) {
+            setSegments('Add images', prev => [...prev, ...result.segments]);
+        }
+        setAddReport(result.items.some(isUnfinished) ? result.items : null);
+    };
+
+    // Same route as the first upload: photos are flattened before the pipeline sees them
+    const handleAddFiles = async (files: File[]) => {
+        const images = files.filter(f => f.type.startsWith('image/'));
+        if (images.length === 0) return;
+        const uploads = await onFlattenUploads(images);
+        if (uploads) runAddImages(createBatchItems(uploads));
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDraggingFiles(false);
+        if (e.dataTransfer.files?.length > 0) handleAddFiles(Array.from(e.dataTransfer.files));
+    };
+
+    const handleExportProject = async () => {
+        const name = session?.name ?? 'stamps';
+        try {
+            const blob = await exportProject({ name, modelId: session?.modelId, sourceImages, processedBitmaps, segments });
+            saveAs(blob, `${name.replace(/\.[^.]+$/, '')}${PROJECT_EXTENSION}`);
+        } catch (e) {
+            console.error("Project export failed", e);
+            alert("The project could not be exported.");
+        }
     };
 
     const handleExportAll = async () => {
         const zip = new JSZip();
         // Use Promise.all to fetch all images
         await Promise.all(segments.map(async (seg, index) => {
-            const response = await fetch(seg.url);
-            const blob = await response.blob();
+            const { blob } = await renderStamp(seg, shapeOptions);
             zip.file(`stamp-${index + 1}.png`, blob);
         }));
 
@@ -97,40 +482,58 @@ export const Editor = ({ sourceImages, processedBitmaps, initialSegments, onRese
         saveAs(content, 'stamps.zip');
     };
 
-    // Render Bounding Boxes Overlay for CURRENT IMAGE ONLY
-    const renderOverlay = () => {
-        if (!scale || !currentViewSegments || overlayDims.width === 0) return null;
-        return currentViewSegments.map(seg => (
-            <div
-                key={seg.id}
-                onClick={() => setSelectedId(seg.id)}
-                className={`absolute border-2 transition-transform cursor-pointer hover:bg-neo-green/20 ${selectedId === seg.id ? 'border-neo-pink z-10' : 'border-neo-green z-0'}`}
-                style={{
-                    left: seg.x * scale,
-                    top: seg.y * scale,
-                    width: seg.width * scale,
-                    height: seg.height * scale,
-                }}
-            >
-                {selectedId === seg.id && (
-                    <div className="absolute -top-6 left-0 bg-neo-pink text-white text-xs font-bold px-1 whitespace-nowrap">
-                        SELECTED
-                    </div>
-                )}
-            </div>
-        ));
+    // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y), and arrow keys to step through the sources.
+    // The mask editor has its own history while open.
+    const { undo, redo } = history;
+    const stepSource = (offset: -1 | 1) => {
+        if (sourceIds.length < 2 || !currentSourceId) return;
+        const index = sourceIds.indexOf(currentSourceId);
+        selectSource(sourceIds[(index + offset + sourceIds.length) % sourceIds.length]);
     };
+    const stepSourceRef = useRef(stepSource);
+    useEffect(() => {
+        stepSourceRef.current = stepSource;
+    });
+
+    useEffect(() => {
+        if (editingSegment) return;
+
+        const onKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA')) return;
+
+            if (!(e.ctrlKey || e.metaKey || e.altKey || e.shiftKey) && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+                e.preventDefault();
+                stepSourceRef.current(e.key === 'ArrowLeft' ? -1 : 1);
+                return;
+            }
+            if (!(e.ctrlKey || e.metaKey)) return;
+
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [editingSegment, undo, redo]);
 
     const handleEdit = (seg: SegmentedObject) => {
         setEditingSegment(seg);
     };
 
-    const handleSaveEdit = (newUrl: string) => {
+    // The edit may have grown or shrunk the stamp's box as well as its mask
+    const handleSaveEdit = (edit: StampEdit) => {
         if (!editingSegment) return;
 
-        setSegments(prev => prev.map(s => {
+        setSegments('Edit stamp mask', prev => prev.map(s => {
             if (s.id === editingSegment.id) {
-                return { ...s, url: newUrl };
+                return { ...s, ...edit };
             }
             return s;
         }));
@@ -138,7 +541,36 @@ export const Editor = ({ sourceImages, processedBitmaps, initialSegments, onRese
     };
 
     return (
-        <div className="flex flex-col h-screen w-full bg-neo-white">
+        <div
+            className="flex flex-col h-screen w-full bg-neo-white"
+            onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes('Files')) return;
+                e.preventDefault();
+                setIsDraggingFiles(true);
+            }}
+            onDragLeave={(e) => {
+                // Only when leaving the editor, not when moving between its children
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false);
+            }}
+            onDrop={handleDrop}
+        >
+            {isDraggingFiles && (
+                <div className="fixed inset-0 z-40 pointer-events-none flex items-center justify-center bg-neo-green/40 border-8 border-dashed border-neo-black">
+                    <div className="bg-white border-4 border-black shadow-neo-lg px-8 py-4 text-2xl font-black flex items-center gap-3">
+                        <ImagePlus size={32} /> DROP TO ADD IMAGES
+                    </div>
+                </div>
+            )}
+
+            {addReport && (
+                <BatchReport
+                    items={addReport}
+                    continueLabel="CLOSE"
+                    onRetryFailed={() => runAddImages(addReport.filter(isUnfinished).map(requeueItem))}
+                    onContinue={() => setAddReport(null)}
+                />
+            )}
+
             {/* Edit Modal */}
             {editingSegment && (
                 <StampEditorModal
@@ -146,64 +578,267 @@ export const Editor = ({ sourceImages, processedBitmaps, initialSegments, onRese
                     sourceImage={sourceImages.get(editingSegment.sourceId) || ''}
                     onSave={handleSaveEdit}
                     onClose={() => setEditingSegment(null)}
+                    onPromptSegment={(prompt) => segmentWithPrompt(editingSegment.sourceId, sourceImages.get(editingSegment.sourceId) || '', prompt)}
                 />
             )}
 
             {/* Top Bar */}
             <header className="h-16 border-b-3 border-black flex items-center justify-between px-4 bg-white z-20 shrink-0">
-                <h1 className="text-xl font-bold italic">AI STAMP CROPPER</h1>
+                <div className="flex items-baseline gap-3">
+                    <h1 className="text-xl font-bold italic">AI STAMP CROPPER</h1>
+                    {session && saveStatus !== 'idle' && (
+                        <span className={`text-[10px] font-bold ${saveStatus === 'error' ? 'text-red-600' : 'opacity-50'}`}>
+                            {saveStatus === 'saving' ? 'SAVING...' : saveStatus === 'saved' ? 'SAVED' : 'SAVE FAILED'}
+                        </span>
+                    )}
+                </div>
                 <div className="flex gap-2">
+                    <button
+                        onClick={undo}
+                        disabled={history.undoCount === 0}
+                        title={history.undoLabel ? `Undo: ${history.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                        className="neo-btn bg-white text-xs flex items-center gap-1 disabled:opacity-40"
+                    >
+                        <Undo2 size={14} /> {history.undoCount}
+                    </button>
+                    <button
+                        onClick={redo}
+                        disabled={history.redoCount === 0}
+                        title={history.redoLabel ? `Redo: ${history.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                        className="neo-btn bg-white text-xs flex items-center gap-1 disabled:opacity-40"
+                    >
+                        <Redo2 size={14} /> {history.redoCount}
+                    </button>
+                    <label className="neo-btn bg-white text-xs cursor-pointer flex items-center gap-1" title="Add more images to this session (or drop them anywhere)">
+                        <ImagePlus size={14} /> ADD IMAGES
+                        <input
+                            type="file"
+                            className="hidden"
+                            accept="image/*"
+                            multiple
+                            onChange={(e) => {
+                                if (e.target.files?.length) handleAddFiles(Array.from(e.target.files));
+                                e.target.value = '';
+                            }}
+                        />
+                    </label>
+                    <label
+                        className="flex items-center gap-1 text-[10px] font-bold cursor-pointer"
+                        title="Mark the sheet corners of added photos taken at an angle and flatten them before processing"
+                    >
+                        <input
+                            type="checkbox"
+                            checked={correctPerspective}
+                            onChange={(e) => onCorrectPerspectiveChange(e.target.checked)}
+                            className="accent-neo-black"
+                        />
+                        PERSPECTIVE
+                    </label>
                     <button onClick={onReset} className="neo-btn bg-white text-xs">NEW IMAGES</button>
+                    <button onClick={handleExportProject} className="neo-btn bg-white text-xs" title="Save everything as a project file to share">SAVE PROJECT</button>
                     <button onClick={handleExportAll} className="neo-btn text-xs bg-neo-green">EXPORT ALL (ZIP)</button>
                 </div>
             </header>
 
             {/* Main Workspace */}
             <div className="flex-1 flex flex-col md:flex-row overflow-hidden min-h-0">
-                {/* Left: Canvas Area */}
-                <div className="flex-1 bg-[conic-gradient(at_top_left,#80808033_25%,transparent_25%_50%,#80808033_50%_75%,transparent_75%)] [background-size:20px_20px] relative flex flex-col items-center justify-center overflow-hidden p-8 min-w-0 min-h-0">
-                    {/* Background Pattern CSS */}
-                    <div className="absolute inset-0 opacity-10 pointer-events-none"
-                        style={{ backgroundImage: 'radial-gradient(circle, #000 1px, transparent 1px)', backgroundSize: '20px 20px' }}
-                    />
+                {/* Left: Canvas Area + source filmstrip */}
+                <div className="flex-1 flex flex-col min-w-0 min-h-0">
+                    <div
+                        ref={viewportRef}
+                        className={`flex-1 bg-[conic-gradient(at_top_left,#80808033_25%,transparent_25%_50%,#80808033_50%_75%,transparent_75%)] [background-size:20px_20px] relative overflow-hidden min-w-0 min-h-0 touch-none ${zoomPan.isPanning ? 'cursor-grabbing' : overlayMode === 'pan' ? 'cursor-grab' : ''}`}
+                    >
+                        {/* Background Pattern CSS */}
+                        <div className="absolute inset-0 opacity-10 pointer-events-none"
+                            style={{ backgroundImage: 'radial-gradient(circle, #000 1px, transparent 1px)', backgroundSize: '20px 20px' }}
+                        />
 
-                    {/* Image Wrapper - Flex centered */}
-                    <div className="relative flex items-center justify-center border-3 border-black shadow-neo-lg bg-white" style={{ maxWidth: '100%', maxHeight: '100%' }}>
-                        {currentOriginalImage ? (
-                            <>
-                                <img
-                                    ref={imageRef}
-                                    src={currentOriginalImage}
-                                    alt="Original"
-                                    className="block object-contain max-w-full max-h-full"
-                                    style={{
-                                        maxWidth: '100%',
-                                        maxHeight: '100%',
-                                        display: 'block'
-                                    }}
+                        {/* Image at the current zoom; the overlay uses the same px per image px */}
+                        {currentOriginalImage && currentBitmap ? (
+                            <div
+                                className="absolute outline outline-[3px] outline-black shadow-neo-lg bg-white"
+                                style={{
+                                    left: view.x,
+                                    top: view.y,
+                                    width: imageWidth * view.zoom,
+                                    height: imageHeight * view.zoom,
+                                }}
+                            >
+                                <SourceView
+                                    mode={sourceViewMode}
+                                    originalUrl={currentOriginalImage}
+                                    bitmap={currentBitmap}
+                                    split={split}
+                                    onSplitChange={setSplit}
+                                    pixelated={view.zoom > 2}
                                 />
-                                {/* Overlay Container attached to Image Dimensions */}
-                                <div
-                                    className="absolute inset-0 pointer-events-none"
-                                >
-                                    <div className="relative w-full h-full pointer-events-auto">
-                                        {renderOverlay()}
-                                    </div>
+                                <div className="absolute inset-0 pointer-events-none">
+                                    <RegionOverlay
+                                        segments={currentViewSegments}
+                                        scale={view.zoom}
+                                        selectedIds={selectedIds}
+                                        mode={overlayMode}
+                                        onSelect={handleSelect}
+                                        onCreate={handleCreateRegion}
+                                        onChange={handleChangeRegion}
+                                        prompt={prompt}
+                                        onPromptPoint={handlePromptPoint}
+                                        onPromptBox={handlePromptBox}
+                                    />
                                 </div>
-                            </>
+                            </div>
                         ) : (
-                            <div className="flex items-center justify-center h-64 w-64 bg-white">
-                                <span className="text-sm font-bold opacity-50">SELECT A STAMP</span>
+                            <div className="absolute inset-0 flex items-center justify-center">
+                                <div className="flex items-center justify-center h-64 w-64 bg-white border-3 border-black shadow-neo-lg">
+                                    <span className="text-sm font-bold opacity-50">SELECT A STAMP</span>
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Region Tools */}
+                        {currentOriginalImage && (
+                            <div className="absolute top-4 left-4 z-20 flex gap-1">
+                                <button onClick={() => setOverlayMode('select')} title="Select / move / resize (shift-click to multi-select)" className={`p-1 border-2 border-black shadow-neo-sm ${overlayMode === 'select' ? 'bg-neo-black text-white' : 'bg-white hover:bg-gray-100'}`}>
+                                    <MousePointer2 size={16} />
+                                </button>
+                                <button onClick={() => setOverlayMode('draw')} title="Draw a new stamp box" className={`p-1 border-2 border-black shadow-neo-sm ${overlayMode === 'draw' ? 'bg-neo-black text-white' : 'bg-white hover:bg-gray-100'}`}>
+                                    <SquareDashed size={16} />
+                                </button>
+                                <button onClick={() => setOverlayMode('pan')} title="Pan (or hold Space / drag with the middle button)" className={`p-1 border-2 border-black shadow-neo-sm ${overlayMode === 'pan' ? 'bg-neo-black text-white' : 'bg-white hover:bg-gray-100'}`}>
+                                    <Hand size={16} />
+                                </button>
+                                <button onClick={() => setOverlayMode('prompt')} title="Click to refine: click the object to keep, shift- or right-click what to leave out, or drag a box around it" className={`p-1 border-2 border-black shadow-neo-sm ${overlayMode === 'prompt' ? 'bg-neo-black text-white' : 'bg-white hover:bg-gray-100'}`}>
+                                    <MousePointerClick size={16} />
+                                </button>
+                                <button onClick={handleMerge} disabled={mergeCandidates.length < 2} title="Merge selected stamps" className="p-1 border-2 border-black shadow-neo-sm bg-white hover:bg-gray-100 disabled:opacity-40">
+                                    <Combine size={16} />
+                                </button>
+                                <button onClick={handleSplit} disabled={!selectedSegment || isSegmenting} title="Split selected stamp" className="p-1 border-2 border-black shadow-neo-sm bg-white hover:bg-gray-100 disabled:opacity-40">
+                                    <Scissors size={16} />
+                                </button>
+                            </div>
+                        )}
+
+                        {overlayMode === 'prompt' && currentOriginalImage && (
+                            <div className="absolute top-14 left-4 z-20 flex items-center gap-2 bg-white border-2 border-black shadow-neo-sm px-2 py-1 text-[10px] font-bold">
+                                <span>{(prompt ? prompt.targetId : selectedSegment) ? 'REFINING SELECTED STAMP' : 'NEW STAMP'}</span>
+                                <span className="opacity-60">CLICK: ADD · SHIFT / RIGHT-CLICK: LEAVE OUT · DRAG: BOX</span>
+                                {promptSegmenter.status !== 'idle' && (
+                                    <span className={promptSegmenter.status === 'error' ? 'text-red-600 max-w-xs' : ''}>
+                                        {promptSegmenter.status === 'error' && promptSegmenter.error ? promptSegmenter.error : PROMPT_STATUS_LABELS[promptSegmenter.status]}
+                                        {promptSegmenter.status === 'downloading' && ` ${Math.round(promptSegmenter.progress)}%`}
+                                    </span>
+                                )}
+                                <button onClick={handleNewPrompt} disabled={!prompt && !selectedSegment} className="px-2 py-0.5 border-2 border-black bg-neo-yellow disabled:opacity-40">
+                                    NEW STAMP
+                                </button>
+                            </div>
+                        )}
+
+                        {/* What the model kept vs. the original */}
+                        {currentOriginalImage && currentBitmap && (
+                            <div className="absolute top-4 right-4 z-20 flex gap-1 text-xs font-bold">
+                                {SOURCE_VIEW_MODES.map(({ mode, label, title }) => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => setSourceViewMode(mode)}
+                                        title={title}
+                                        className={`px-2 py-1 border-2 border-black shadow-neo-sm ${sourceViewMode === mode ? 'bg-neo-black text-white' : 'bg-white hover:bg-gray-100'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
+                        {/* Zoom: wheel or pinch on the canvas, or these buttons */}
+                        {currentOriginalImage && imageWidth > 0 && (
+                            <div className="absolute bottom-4 left-4 z-20 flex gap-1 text-xs font-bold">
+                                <button onClick={() => zoomPan.zoomBy(1 / 1.25)} title="Zoom out" className="p-1 border-2 border-black shadow-neo-sm bg-white hover:bg-gray-100">
+                                    <ZoomOut size={16} />
+                                </button>
+                                <span className="px-2 py-1 border-2 border-black bg-white min-w-[3.5rem] text-center">{Math.round(view.zoom * 100)}%</span>
+                                <button onClick={() => zoomPan.zoomBy(1.25)} title="Zoom in" className="p-1 border-2 border-black shadow-neo-sm bg-white hover:bg-gray-100">
+                                    <ZoomIn size={16} />
+                                </button>
+                                <button onClick={zoomPan.fit} title="Fit the image in the view" className={`px-2 py-1 border-2 border-black shadow-neo-sm ${zoomPan.isFit ? 'bg-neo-black text-white' : 'bg-white hover:bg-gray-100'}`}>
+                                    FIT
+                                </button>
+                                <button onClick={zoomPan.actualSize} title="One image pixel per screen pixel" className={`px-2 py-1 border-2 border-black shadow-neo-sm ${view.zoom === 1 ? 'bg-neo-black text-white' : 'bg-white hover:bg-gray-100'}`}>
+                                    100%
+                                </button>
+                            </div>
+                        )}
+
+                        {/* Orientation of the selected stamp, applied to its preview and export */}
+                        {selectedSegment && selectedIds.length === 1 && (
+                            <div className="absolute bottom-14 left-4 z-20 flex gap-1 text-xs font-bold">
+                                <button onClick={() => rotateSelected(-90)} title="Rotate 90° counterclockwise" className="p-1 border-2 border-black shadow-neo-sm bg-white hover:bg-gray-100">
+                                    <RotateCcw size={16} />
+                                </button>
+                                <button onClick={() => rotateSelected(-1)} title="Rotate 1° counterclockwise" className="px-2 py-1 border-2 border-black shadow-neo-sm bg-white hover:bg-gray-100">−1°</button>
+                                <span className="px-2 py-1 border-2 border-black bg-white min-w-[3.5rem] text-center">{selectedSegment.rotation ?? 0}°</span>
+                                <button onClick={() => rotateSelected(1)} title="Rotate 1° clockwise" className="px-2 py-1 border-2 border-black shadow-neo-sm bg-white hover:bg-gray-100">+1°</button>
+                                <button onClick={() => rotateSelected(90)} title="Rotate 90° clockwise" className="p-1 border-2 border-black shadow-neo-sm bg-white hover:bg-gray-100">
+                                    <RotateCw size={16} />
+                                </button>
+                                <button onClick={() => flipSelected(false)} title="Flip horizontally" className={`p-1 border-2 border-black shadow-neo-sm ${selectedSegment.flipX ? 'bg-neo-black text-white' : 'bg-white hover:bg-gray-100'}`}>
+                                    <FlipHorizontal2 size={16} />
+                                </button>
+                                <button onClick={() => flipSelected(true)} title="Flip vertically" className="p-1 border-2 border-black shadow-neo-sm bg-white hover:bg-gray-100">
+                                    <FlipVertical2 size={16} />
+                                </button>
+                                <button onClick={handleStraighten} title="Detect the tilt from the stamp's edges and straighten it" className="px-2 py-1 border-2 border-black shadow-neo-sm bg-neo-yellow hover:bg-white">
+                                    STRAIGHTEN
+                                </button>
+                                <button
+                                    onClick={() => orientSelected('Reset stamp orientation', () => ({ rotation: 0, flipX: false }))}
+                                    disabled={!selectedSegment.rotation && !selectedSegment.flipX}
+                                    title="Back to the stamp as cut"
+                                    className="px-2 py-1 border-2 border-black shadow-neo-sm bg-white hover:bg-gray-100 disabled:opacity-40"
+                                >
+                                    RESET
+                                </button>
+                            </div>
+                        )}
+
+                        {currentOriginalImage && isZoomedIn && (
+                            <div className="absolute bottom-4 right-4 z-20">
+                                <Minimap
+                                    imageUrl={currentOriginalImage}
+                                    contentWidth={imageWidth}
+                                    contentHeight={imageHeight}
+                                    view={view}
+                                    viewportWidth={zoomPan.viewportSize.width}
+                                    viewportHeight={zoomPan.viewportSize.height}
+                                    onCenter={zoomPan.centerOn}
+                                />
                             </div>
                         )}
                     </div>
+
+                    <SourceStrip
+                        sources={sourceSummaries}
+                        currentId={currentSourceId}
+                        onSelect={selectSource}
+                        onRemove={handleRemoveSource}
+                    />
                 </div>
 
                 {/* Right: Results / Settings */}
                 <div className="h-1/3 md:h-auto md:w-96 border-t-3 md:border-t-0 md:border-l-3 border-black bg-white flex flex-col z-10 shrink-0">
                     <div className="p-4 border-b-3 border-black bg-neo-yellow">
                         <div className="flex justify-between items-center mb-2">
-                            <h2 className="font-bold border-b-2 border-black inline-block">RESULTS ({segments.length})</h2>
+                            <h2 className="font-bold border-b-2 border-black inline-block">RESULTS ({gridSegments.length}{showCurrentSourceOnly ? ` / ${segments.length}` : ''})</h2>
+                            {sourceIds.length > 1 && (
+                                <button
+                                    onClick={() => setShowCurrentSourceOnly(v => !v)}
+                                    title="Only list the stamps of the image on the canvas"
+                                    className={`px-2 py-1 border-2 border-black text-xs font-bold ${showCurrentSourceOnly ? 'bg-neo-black text-white' : 'bg-white hover:bg-gray-100'}`}
+                                >
+                                    THIS IMAGE ONLY
+                                </button>
+                            )}
                         </div>
 
                         <div className="flex gap-2 mb-2 text-xs font-bold">
@@ -212,11 +847,53 @@ export const Editor = ({ sourceImages, processedBitmaps, initialSegments, onRese
                             <button onClick={() => setCropShape('square')} className={`px-2 py-1 border-2 border-black ${cropShape === 'square' ? 'bg-neo-black text-white' : 'bg-white hover:bg-gray-100'}`}>SQUARE</button>
                             <button onClick={() => setCropShape('circle')} className={`px-2 py-1 border-2 border-black rounded-full ${cropShape === 'circle' ? 'bg-neo-black text-white' : 'bg-white hover:bg-gray-100'}`}>CIRCLE</button>
                         </div>
-                        <p className="text-xs opacity-70">Click box to select. Right click to save.</p>
+
+                        {cropShape !== 'original' && (
+                            <div className="flex flex-wrap gap-2 mb-2 text-xs font-bold items-center">
+                                <span>CENTER:</span>
+                                <button onClick={() => setShapeOptions(prev => ({ ...prev, centering: 'bounds' }))} className={`px-2 py-1 border-2 border-black ${shapeOptions.centering === 'bounds' ? 'bg-neo-black text-white' : 'bg-white hover:bg-gray-100'}`}>BOX</button>
+                                <button onClick={() => setShapeOptions(prev => ({ ...prev, centering: 'mass' }))} className={`px-2 py-1 border-2 border-black ${shapeOptions.centering === 'mass' ? 'bg-neo-black text-white' : 'bg-white hover:bg-gray-100'}`}>MASS</button>
+
+                                <span className="ml-2">PAD:</span>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={shapeOptions.padding}
+                                    onChange={(e) => setShapeOptions(prev => ({ ...prev, padding: Math.max(0, Number(e.target.value)) }))}
+                                    className="w-14 border-2 border-black px-1 font-bold text-center"
+                                />
+
+                                {cropShape === 'circle' && (
+                                    <>
+                                        <span className="ml-2">EDGE:</span>
+                                        <input
+                                            type="range"
+                                            min="0"
+                                            max="8"
+                                            step="0.5"
+                                            value={shapeOptions.edgeSoftness}
+                                            onChange={(e) => setShapeOptions(prev => ({ ...prev, edgeSoftness: Number(e.target.value) }))}
+                                            className="w-20 accent-neo-black"
+                                        />
+                                    </>
+                                )}
+                            </div>
+                        )}
+                        <p className="text-xs opacity-70">Click box to select, shift-click to add. Drag to move, corners to resize.</p>
                     </div>
 
+                    <SegmentationSettings
+                        options={segmentationOptions}
+                        onChange={onSegmentationOptionsChange}
+                        onApplyCurrent={() => currentSourceId && resegment([currentSourceId])}
+                        onApplyAll={() => resegment(sourceIds)}
+                        isBusy={isSegmenting}
+                        progress={segmentProgress}
+                        hasCurrentSource={!!currentSourceId}
+                    />
+
                     <div className="flex-1 overflow-y-auto">
-                        <ResultGrid items={segments} onRemove={handleRemove} onEdit={handleEdit} shape={cropShape} />
+                        <ResultGrid items={gridSegments} onRemove={handleRemove} onEdit={handleEdit} onMove={handleMove} shapeOptions={shapeOptions} />
                     </div>
                 </div>
             </div>
@@ -1,6 +1,48 @@
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
+import { X } from 'lucide-react';
+import { estimateRemaining, fileFraction, type BatchFileStatus, type BatchItem, type DownloadProgress } from '../utils/batch';
+
+interface LoadingScreenProps {
+    progress: number;
+    status: string;
+    // Batch details; without them only the overall bar is shown
+    items?: BatchItem[];
+    downloads?: Record<string, DownloadProgress>;
+    startedAt?: number;
+    onCancel?: () => void;
+}
+
+const STATUS_LABELS: Record<BatchFileStatus, string> = {
+    queued: 'QUEUED',
+    removing: 'REMOVING BG',
+    segmenting: 'FINDING STAMPS',
+    done: 'DONE',
+    failed: 'FAILED',
+    canceled: 'CANCELED',
+};
+
+const formatMB = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+
+const formatDuration = (ms: number) => {
+    const seconds = Math.ceil(ms / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+export const LoadingScreen = ({ progress, status, items, downloads, startedAt, onCancel }: LoadingScreenProps) => {
+    const [now, setNow] = useState(() => Date.now());
+    const [canceling, setCanceling] = useState(false);
+
+    // Re-render once a second so the ETA counts down between progress events
+    useEffect(() => {
+        if (!startedAt) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [startedAt]);
+
+    const eta = items && startedAt ? estimateRemaining(items, startedAt, now) : null;
+    const downloadEntries = Object.entries(downloads ?? {}).filter(([, d]) => d.loaded < d.total);
 
-export const LoadingScreen = ({ progress, status }: { progress: number; status: string }) => {
     return (
         <div className="fixed inset-0 bg-neo-white flex flex-col items-center justify-center z-50">
             <div className="relative w-64 h-64 mb-8 flex items-center justify-center">
@@ -97,7 +139,48 @@ export const LoadingScreen = ({ progress, status }: { progress: number; status:
                         transition={{ type: 'spring', damping: 20 }}
                     />
                 </div>
-                <div className="text-right font-black font-mono text-2xl">{Math.round(progress)}%</div>
+                <div className="flex items-baseline justify-between font-black font-mono">
+                    <span className="text-sm">{eta !== null ? `~${formatDuration(eta)} LEFT` : status}</span>
+                    <span className="text-2xl">{Math.round(progress)}%</span>
+                </div>
+
+                {downloadEntries.length > 0 && (
+                    <div className="border-2 border-black bg-white p-2 text-[10px] font-bold font-mono space-y-1">
+                        {downloadEntries.map(([file, d]) => (
+                            <div key={file} className="flex justify-between gap-2">
+                                <span className="truncate">MODEL {file}</span>
+                                <span className="shrink-0">{formatMB(d.loaded)} / {formatMB(d.total)} MB</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {items && items.length > 1 && (
+                    <ul className="border-2 border-black bg-white max-h-40 overflow-y-auto text-[10px] font-bold font-mono">
+                        {items.map(item => (
+                            <li key={item.id} className="flex items-center gap-2 px-2 py-1 border-b border-black/20 last:border-b-0">
+                                <span className="flex-1 truncate">{item.file.name}</span>
+                                <span className={`shrink-0 ${item.status === 'failed' ? 'text-neo-pink' : ''}`}>{STATUS_LABELS[item.status]}</span>
+                                <div className="w-12 h-2 border border-black shrink-0">
+                                    <div className="h-full bg-neo-green" style={{ width: `${fileFraction(item) * 100}%` }} />
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {onCancel && (
+                    <button
+                        onClick={() => {
+                            setCanceling(true);
+                            onCancel();
+                        }}
+                        disabled={canceling}
+                        className="w-full neo-btn flex items-center justify-center gap-2 bg-neo-pink text-white disabled:opacity-50"
+                    >
+                        <X size={16} /> {canceling ? 'CANCELING...' : 'CANCEL (KEEP FINISHED)'}
+                    </button>
+                )}
             </div>
         </div>
     );
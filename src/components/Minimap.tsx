@@ -0,0 +1,61 @@
+import { useRef } from 'react';
+import type { ZoomPanView } from '../hooks/useZoomPan';
+
+interface MinimapProps {
+    imageUrl: string;
+    contentWidth: number; // image px
+    contentHeight: number;
+    view: ZoomPanView;
+    viewportWidth: number; // screen px
+    viewportHeight: number;
+    onCenter: (x: number, y: number) => void; // image px to bring to the middle of the viewport
+}
+
+const MINIMAP_SIZE = 160; // longest side, px
+
+// Thumbnail of the whole image with the visible part outlined; click or drag to jump there
+export const Minimap = ({ imageUrl, contentWidth, contentHeight, view, viewportWidth, viewportHeight, onCenter }: MinimapProps) => {
+    const ref = useRef<HTMLDivElement>(null);
+    const ratio = MINIMAP_SIZE / Math.max(contentWidth, contentHeight);
+    const width = contentWidth * ratio;
+    const height = contentHeight * ratio;
+
+    // Visible part of the image, in image px, clipped to the image
+    const left = Math.max(0, -view.x / view.zoom);
+    const top = Math.max(0, -view.y / view.zoom);
+    const right = Math.min(contentWidth, (viewportWidth - view.x) / view.zoom);
+    const bottom = Math.min(contentHeight, (viewportHeight - view.y) / view.zoom);
+
+    const centerAt = (e: React.PointerEvent) => {
+        const rect = ref.current!.getBoundingClientRect();
+        onCenter((e.clientX - rect.left) / ratio, (e.clientY - rect.top) / ratio);
+    };
+
+    return (
+        <div
+            ref={ref}
+            className="relative border-2 border-black shadow-neo-sm bg-white cursor-pointer touch-none"
+            style={{ width, height }}
+            onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                centerAt(e);
+            }}
+            onPointerMove={(e) => {
+                if (e.currentTarget.hasPointerCapture(e.pointerId)) centerAt(e);
+            }}
+        >
+            <img src={imageUrl} alt="" className="w-full h-full pointer-events-none" draggable={false} />
+            {right > left && bottom > top && (
+                <div
+                    className="absolute border-2 border-neo-pink bg-neo-pink/10 pointer-events-none"
+                    style={{
+                        left: left * ratio,
+                        top: top * ratio,
+                        width: (right - left) * ratio,
+                        height: (bottom - top) * ratio,
+                    }}
+                />
+            )}
+        </div>
+    );
+};
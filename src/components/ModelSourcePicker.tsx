@@ -0,0 +1,70 @@
+import { useEffect, useRef } from 'react';
+import { FolderInput } from 'lucide-react';
+import { folderFileMap, type ModelSource } from '../utils/modelSource';
+import { MODEL_REGISTRY, getModel } from '../utils/modelRegistry';
+
+interface ModelSourcePickerProps {
+    source: ModelSource;
+    onChange: (source: ModelSource, files?: Map<string, File> | null) => void;
+    modelId: string;
+    onModelChange: (modelId: string) => void;
+}
+
+const OPTIONS: { value: Exclude<ModelSource, 'folder'>; label: string; hint: string }[] = [
+    { value: 'auto', label: 'AUTO', hint: 'Bundled model if present, otherwise download' },
+    { value: 'remote', label: 'ONLINE', hint: 'Download from Hugging Face (cached after first use)' },
+    { value: 'origin', label: 'BUNDLED', hint: 'Only use the model shipped with this app' },
+];
+
+export const ModelSourcePicker = ({ source, onChange, modelId, onModelChange }: ModelSourcePickerProps) => {
+    const folderInputRef = useRef<HTMLInputElement>(null);
+
+    // React has no typed prop for directory picking
+    useEffect(() => {
+        folderInputRef.current?.setAttribute('webkitdirectory', '');
+    }, []);
+
+    const handleFolder = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = e.target.files;
+        if (files?.length) onChange('folder', folderFileMap(Array.from(files), modelId));
+        e.target.value = '';
+    };
+
+    return (
+        <div className="mt-4 text-[10px] font-bold">
+            <div className="flex items-center justify-center gap-1">
+                <span className="mr-1">MODEL:</span>
+                <select
+                    value={modelId}
+                    onChange={(e) => onModelChange(e.target.value)}
+                    className="px-2 py-1 border-2 border-black bg-white font-bold"
+                >
+                    {MODEL_REGISTRY.map(m => (
+                        <option key={m.id} value={m.id}>{m.label}</option>
+                    ))}
+                </select>
+                <span className="opacity-60 text-left">{getModel(modelId).description}</span>
+            </div>
+            <div className="flex flex-wrap items-center justify-center gap-1 mt-2">
+                <span className="mr-1">SOURCE:</span>
+                {OPTIONS.map(o => (
+                    <button
+                        key={o.value}
+                        onClick={() => onChange(o.value)}
+                        title={o.hint}
+                        className={`px-2 py-1 border-2 border-black ${source === o.value ? 'bg-neo-black text-white' : 'bg-white hover:bg-gray-100'}`}
+                    >
+                        {o.label}
+                    </button>
+                ))}
+                <label
+                    title="Load the model files from a folder on this computer"
+                    className={`px-2 py-1 border-2 border-black cursor-pointer flex items-center gap-1 ${source === 'folder' ? 'bg-neo-black text-white' : 'bg-white hover:bg-gray-100'}`}
+                >
+                    <FolderInput size={12} /> FOLDER
+                    <input ref={folderInputRef} type="file" className="hidden" multiple onChange={handleFolder} />
+                </label>
+            </div>
+        </div>
+    );
+};
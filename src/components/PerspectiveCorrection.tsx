@@ -0,0 +1,252 @@
+import { useEffect, useRef, useState } from 'react';
+import { ArrowRight, Maximize, ScanLine, SkipForward, X } from 'lucide-react';
+import { usePerspectiveCorrection, fullImageQuad, type Corner, type Quad } from '../hooks/usePerspectiveCorrection';
+
+interface PerspectiveCorrectionProps {
+    files: File[];
+    onDone: (files: File[]) => void; // the uploads to process, flattened or as they were
+    onCancel: () => void; // none of the uploads are processed
+}
+
+interface LoadedImage {
+    url: string;
+    width: number;
+    height: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Dragging a corner across the opposite side folds the quad; the warp would come out mirrored
+function isConvex(quad: Quad): boolean {
+    let sign = 0;
+    for (let i = 0; i < 4; i++) {
+        const [a, b, c] = [quad[i], quad[(i + 1) % 4], quad[(i + 2) % 4]];
+        const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+        if (cross === 0) return false;
+        if (sign !== 0 && Math.sign(cross) !== sign) return false;
+        sign = Math.sign(cross);
+    }
+    return true;
+}
+
+const CORNER_LABELS = ['Top left', 'Top right', 'Bottom right', 'Bottom left'];
+
+interface SheetCornersProps {
+    file: File;
+    detectCorners: (imageUrl: string) => Promise<Quad | null>;
+    warpImage: (file: File, imageUrl: string, corners: Quad) => Promise<File>;
+    onResult: (file: File) => void;
+}
+
+// One upload: corners are detected when it opens and can be dragged into place
+const SheetCorners = ({ file, detectCorners, warpImage, onResult }: SheetCornersProps) => {
+    const [image, setImage] = useState<LoadedImage | null>(null);
+    const [corners, setCorners] = useState<Quad | null>(null);
+    const [detected, setDetected] = useState<boolean | null>(null); // null while detecting
+    const [dragging, setDragging] = useState<number | null>(null);
+    const [flattening, setFlattening] = useState(false);
+    const svgRef = useRef<SVGSVGElement>(null);
+    // Once a corner has been moved by hand, a detection finishing late doesn't overwrite it
+    const adjustedRef = useRef(false);
+
+    // Latest callback for the loader below, which only reruns per file
+    const onResultRef = useRef(onResult);
+    useEffect(() => {
+        onResultRef.current = onResult;
+    });
+
+    useEffect(() => {
+        const url = URL.createObjectURL(file);
+        let active = true;
+        const element = new Image();
+        element.onload = async () => {
+            if (!active) return;
+            const { naturalWidth: width, naturalHeight: height } = element;
+            setImage({ url, width, height });
+            setCorners(fullImageQuad(width, height));
+            try {
+                const found = await detectCorners(url);
+                if (!active) return;
+                if (found && !adjustedRef.current) setCorners(found);
+                setDetected(!!found);
+            } catch (e) {
+                // Timed out or failed: the corners stay on the photo's edges
+                console.error("Sheet detection failed", e);
+                if (active) setDetected(false);
+            }
+        };
+        element.onerror = () => {
+            // Not an image the browser can show; it goes on as it is and fails in the batch report
+            if (active) onResultRef.current(file);
+        };
+        element.src = url;
+        return () => {
+            active = false;
+            URL.revokeObjectURL(url);
+        };
+    }, [file, detectCorners]);
+
+    const redetect = async () => {
+        if (!image) return;
+        setDetected(null);
+        const found = await detectCorners(image.url).catch(() => null);
+        if (found) setCorners(found);
+        else alert("No sheet edges were found. Drag the corners onto the sheet instead.");
+        setDetected(!!found);
+    };
+
+    const apply = async () => {
+        if (!image || !corners) return;
+        setFlattening(true);
+        try {
+            onResult(await warpImage(file, image.url, corners));
+        } catch (e) {
+            console.error("Perspective correction failed", e);
+            alert("The image could not be flattened. Check that the corners outline the sheet.");
+            setFlattening(false);
+        }
+    };
+
+    // Pointer position in image px; the SVG's viewBox is the image itself
+    const toImage = (e: React.PointerEvent): Corner | null => {
+        const ctm = svgRef.current?.getScreenCTM();
+        if (!ctm || !image) return null;
+        const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+        return { x: clamp(p.x, 0, image.width), y: clamp(p.y, 0, image.height) };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (dragging === null || !corners) return;
+        const point = toImage(e);
+        if (!point) return;
+        setCorners(corners.map((c, i) => i === dragging ? point : c) as Quad);
+    };
+
+    if (!image || !corners) {
+        return <div className="h-[60vh] flex items-center justify-center font-bold">LOADING...</div>;
+    }
+
+    const { width, height } = image;
+    const handleRadius = Math.max(width, height) / 60;
+    const outline = corners.map(c => `${c.x},${c.y}`).join(' ');
+    const convex = isConvex(corners);
+
+    return (
+        <>
+            <svg
+                ref={svgRef}
+                viewBox={`0 0 ${width} ${height}`}
+                className="w-full h-[60vh] bg-[repeating-conic-gradient(#eee_0%_25%,#fff_0%_50%)] [background-size:16px_16px] border-2 border-black touch-none select-none"
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => setDragging(null)}
+                onPointerCancel={() => setDragging(null)}
+            >
+                <image href={image.url} width={width} height={height} />
+                {/* Everything outside the sheet is dimmed */}
+                <path
+                    d={`M0 0 H${width} V${height} H0 Z M${outline.replace(/ /g, ' L')} Z`}
+                    fillRule="evenodd"
+                    className="fill-black/40"
+                />
+                <polygon
+                    points={outline}
+                    fill="none"
+                    strokeWidth={3}
+                    vectorEffect="non-scaling-stroke"
+                    className={convex ? 'stroke-neo-green' : 'stroke-neo-pink'}
+                />
+                {corners.map((c, i) => (
+                    <circle
+                        key={i}
+                        cx={c.x}
+                        cy={c.y}
+                        r={handleRadius}
+                        strokeWidth={2}
+                        vectorEffect="non-scaling-stroke"
+                        className={`stroke-black ${dragging === i ? 'fill-neo-pink' : 'fill-neo-yellow'} cursor-move`}
+                        onPointerDown={(e) => {
+                            e.preventDefault();
+                            svgRef.current?.setPointerCapture(e.pointerId);
+                            adjustedRef.current = true;
+                            setDragging(i);
+                        }}
+                    >
+                        <title>{CORNER_LABELS[i]}</title>
+                    </circle>
+                ))}
+            </svg>
+
+            <div className="flex flex-wrap items-center justify-between gap-2 mt-3">
+                <div className="text-xs font-bold">
+                    {detected === null
+                        ? 'LOOKING FOR THE SHEET EDGES...'
+                        : detected ? 'SHEET DETECTED · DRAG THE CORNERS TO ADJUST' : 'NO SHEET FOUND · DRAG THE CORNERS ONTO THE SHEET'}
+                </div>
+                <div className="flex gap-2">
+                    <button onClick={redetect} disabled={detected === null || flattening} className="neo-btn flex items-center gap-2 text-sm bg-white disabled:opacity-50">
+                        <ScanLine size={16} /> AUTO DETECT
+                    </button>
+                    <button onClick={() => setCorners(fullImageQuad(width, height))} disabled={flattening} title="Corners back on the photo's edges" className="neo-btn flex items-center gap-2 text-sm bg-white disabled:opacity-50">
+                        <Maximize size={16} /> FULL IMAGE
+                    </button>
+                    <button onClick={() => onResult(file)} disabled={flattening} title="Use this photo as it is" className="neo-btn flex items-center gap-2 text-sm bg-white disabled:opacity-50">
+                        <SkipForward size={16} /> SKIP
+                    </button>
+                    <button
+                        onClick={apply}
+                        disabled={flattening || !convex}
+                        title={convex ? 'Flatten the sheet to a rectangle' : 'The corners cross over; move them back onto the sheet'}
+                        className="neo-btn flex items-center gap-2 text-sm bg-neo-green disabled:opacity-50"
+                    >
+                        {flattening ? 'FLATTENING...' : 'FLATTEN'} <ArrowRight size={16} />
+                    </button>
+                </div>
+            </div>
+        </>
+    );
+};
+
+/**
+ * Optional step between upload and processing: each photo of a sheet shot at
+ * an angle is warped so the sheet becomes a flat rectangle, and the stamps on
+ * it come out square.
+ */
+export const PerspectiveCorrection = ({ files, onDone, onCancel }: PerspectiveCorrectionProps) => {
+    const { detectCorners, warpImage } = usePerspectiveCorrection();
+    const [results, setResults] = useState<File[]>([]);
+    const index = results.length;
+
+    const handleResult = (file: File) => {
+        const next = [...results, file];
+        if (next.length === files.length) onDone(next);
+        else setResults(next);
+    };
+
+    if (index >= files.length) return null;
+
+    return (
+        <div className="fixed inset-0 z-40 flex items-center justify-center p-4 bg-neo-white/90">
+            <div className="bg-white p-6 border-4 border-neo-black shadow-neo-lg max-w-5xl w-full">
+                <div className="flex items-start justify-between gap-4 mb-3">
+                    <div className="min-w-0">
+                        <h1 className="text-2xl font-black uppercase">Perspective</h1>
+                        <p className="font-bold text-sm truncate">
+                            {files.length > 1 && `${index + 1} / ${files.length} · `}{files[index].name}
+                        </p>
+                    </div>
+                    <button onClick={onCancel} title="Cancel these uploads" className="p-1 border-2 border-black hover:bg-neo-pink hover:text-white">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <SheetCorners
+                    key={index}
+                    file={files[index]}
+                    detectCorners={detectCorners}
+                    warpImage={warpImage}
+                    onResult={handleResult}
+                />
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,228 @@
+import { useRef, useState } from 'react';
+import type { SegmentedObject } from '../hooks/useObjectSegmenter';
+import type { PromptPoint, SegmentPrompt } from '../hooks/usePromptSegmenter';
+import { normalizeBox, type Box } from '../utils/regionCrop';
+
+// 'pan' leaves the pointer to the zoomable viewport around the overlay.
+// 'prompt' collects click-to-refine prompts: clicks are points, drags are a box.
+export type OverlayMode = 'select' | 'draw' | 'pan' | 'prompt';
+
+type Handle = 'nw' | 'ne' | 'sw' | 'se';
+
+type Drag =
+    | { kind: 'draw'; startX: number; startY: number }
+    | { kind: 'prompt'; startX: number; startY: number; label: PromptPoint['label'] }
+    | { kind: 'move'; id: string; startX: number; startY: number; origin: Box }
+    | { kind: 'resize'; id: string; handle: Handle; startX: number; startY: number; origin: Box };
+
+interface RegionOverlayProps {
+    segments: SegmentedObject[]; // segments of the source currently shown
+    scale: number; // rendered px per image px
+    selectedIds: string[];
+    mode: OverlayMode;
+    onSelect: (id: string | null, additive: boolean) => void;
+    onCreate: (box: Box) => void;
+    onChange: (id: string, box: Box) => void;
+    prompt?: SegmentPrompt | null; // prompts placed so far, shown in 'prompt' mode
+    onPromptPoint?: (point: PromptPoint) => void;
+    onPromptBox?: (box: Box) => void;
+}
+
+// Drags shorter than this (screen px) count as clicks
+const CLICK_SLOP = 3;
+
+const HANDLES: Handle[] = ['nw', 'ne', 'sw', 'se'];
+
+export const RegionOverlay = ({ segments, scale, selectedIds, mode, onSelect, onCreate, onChange, prompt, onPromptPoint, onPromptBox }: RegionOverlayProps) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<Drag | null>(null);
+    const [draft, setDraft] = useState<{ id: string | null; box: Box } | null>(null);
+
+    // Pointer position in image coordinates
+    const toImage = (e: React.PointerEvent) => {
+        const rect = containerRef.current!.getBoundingClientRect();
+        return { x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale };
+    };
+
+    const beginDrag = (e: React.PointerEvent, drag: Drag) => {
+        dragRef.current = drag;
+        containerRef.current?.setPointerCapture(e.pointerId);
+    };
+
+    const handleBackgroundDown = (e: React.PointerEvent) => {
+        if (mode === 'prompt') {
+            // Shift, Alt or the right button mark a part that doesn't belong to the object
+            if (e.button !== 0 && e.button !== 2) return;
+            const p = toImage(e);
+            const label = e.button === 2 || e.shiftKey || e.altKey ? 0 : 1;
+            beginDrag(e, { kind: 'prompt', startX: p.x, startY: p.y, label });
+        } else if (mode === 'draw') {
+            const p = toImage(e);
+            beginDrag(e, { kind: 'draw', startX: p.x, startY: p.y });
+        } else if (!e.shiftKey) {
+            onSelect(null, false);
+        }
+    };
+
+    const handleBoxDown = (e: React.PointerEvent, seg: SegmentedObject) => {
+        // In draw and prompt mode boxes are transparent to the pointer so you can draw over them
+        if (mode === 'draw' || mode === 'prompt') return;
+        e.stopPropagation();
+
+        onSelect(seg.id, e.shiftKey);
+        if (e.shiftKey) return;
+
+        const p = toImage(e);
+        beginDrag(e, { kind: 'move', id: seg.id, startX: p.x, startY: p.y, origin: seg });
+    };
+
+    const handleHandleDown = (e: React.PointerEvent, seg: SegmentedObject, handle: Handle) => {
+        e.stopPropagation();
+        const p = toImage(e);
+        beginDrag(e, { kind: 'resize', id: seg.id, handle, startX: p.x, startY: p.y, origin: seg });
+    };
+
+    const handleMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+
+        const p = toImage(e);
+        const dx = p.x - drag.startX;
+        const dy = p.y - drag.startY;
+
+        if (Math.abs(dx * scale) < CLICK_SLOP && Math.abs(dy * scale) < CLICK_SLOP && !draft) return;
+
+        if (drag.kind === 'draw' || drag.kind === 'prompt') {
+            setDraft({ id: null, box: normalizeBox({ x: drag.startX, y: drag.startY, width: dx, height: dy }) });
+        } else if (drag.kind === 'move') {
+            setDraft({ id: drag.id, box: { ...drag.origin, x: drag.origin.x + dx, y: drag.origin.y + dy } });
+        } else {
+            const o = drag.origin;
+            const west = drag.handle === 'nw' || drag.handle === 'sw';
+            const north = drag.handle === 'nw' || drag.handle === 'ne';
+            setDraft({
+                id: drag.id,
+                box: normalizeBox({
+                    x: west ? o.x + dx : o.x,
+                    y: north ? o.y + dy : o.y,
+                    width: west ? o.width - dx : o.width + dx,
+                    height: north ? o.height - dy : o.height + dy,
+                }),
+            });
+        }
+    };
+
+    // Capture taken away mid-drag (e.g. a second finger starts a pinch): drop the drag
+    const handleLostCapture = () => {
+        dragRef.current = null;
+        setDraft(null);
+    };
+
+    const handleUp = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        dragRef.current = null;
+        if (containerRef.current?.hasPointerCapture(e.pointerId)) {
+            containerRef.current.releasePointerCapture(e.pointerId);
+        }
+        if (drag?.kind === 'prompt' && !draft) {
+            onPromptPoint?.({ x: drag.startX, y: drag.startY, label: drag.label });
+            return;
+        }
+        if (!drag || !draft) return;
+
+        setDraft(null);
+        // Ignore slivers produced by sloppy clicks
+        if (draft.box.width * scale < CLICK_SLOP || draft.box.height * scale < CLICK_SLOP) return;
+
+        if (drag.kind === 'draw') onCreate(draft.box);
+        else if (drag.kind === 'prompt') onPromptBox?.(draft.box);
+        else onChange(drag.id, draft.box);
+    };
+
+    const showHandles = mode === 'select' && selectedIds.length === 1;
+
+    return (
+        <div
+            ref={containerRef}
+            className={`relative w-full h-full touch-none ${mode === 'pan' ? 'pointer-events-none' : 'pointer-events-auto'} ${mode === 'draw' || mode === 'prompt' ? 'cursor-crosshair' : ''}`}
+            onPointerDown={handleBackgroundDown}
+            onPointerMove={handleMove}
+            onPointerUp={handleUp}
+            onPointerCancel={handleUp}
+            onLostPointerCapture={handleLostCapture}
+            onContextMenu={(e) => {
+                if (mode === 'prompt') e.preventDefault();
+            }}
+        >
+            {segments.map(seg => {
+                const box = draft && draft.id === seg.id ? draft.box : seg;
+                const isSelected = selectedIds.includes(seg.id);
+                return (
+                    <div
+                        key={seg.id}
+                        onPointerDown={(e) => handleBoxDown(e, seg)}
+                        className={`absolute border-2 ${mode === 'select' ? 'cursor-move hover:bg-neo-green/20' : 'pointer-events-none'} ${isSelected ? 'border-neo-pink z-10' : 'border-neo-green z-0'}`}
+                        style={{
+                            left: box.x * scale,
+                            top: box.y * scale,
+                            width: box.width * scale,
+                            height: box.height * scale,
+                        }}
+                    >
+                        {isSelected && (
+                            <div className="absolute -top-6 left-0 bg-neo-pink text-white text-xs font-bold px-1 whitespace-nowrap">
+                                {selectedIds.length > 1 ? `SELECTED ${selectedIds.indexOf(seg.id) + 1}` : 'SELECTED'}
+                            </div>
+                        )}
+                        {isSelected && showHandles && HANDLES.map(h => (
+                            <div
+                                key={h}
+                                onPointerDown={(e) => handleHandleDown(e, seg, h)}
+                                className={`absolute w-3 h-3 bg-white border-2 border-neo-pink ${h === 'nw' || h === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}`}
+                                style={{
+                                    left: h === 'nw' || h === 'sw' ? -7 : undefined,
+                                    right: h === 'ne' || h === 'se' ? -7 : undefined,
+                                    top: h === 'nw' || h === 'ne' ? -7 : undefined,
+                                    bottom: h === 'sw' || h === 'se' ? -7 : undefined,
+                                }}
+                            />
+                        ))}
+                    </div>
+                );
+            })}
+
+            {draft && draft.id === null && (
+                <div
+                    className="absolute border-2 border-dashed border-neo-pink bg-neo-pink/10 pointer-events-none"
+                    style={{
+                        left: draft.box.x * scale,
+                        top: draft.box.y * scale,
+                        width: draft.box.width * scale,
+                        height: draft.box.height * scale,
+                    }}
+                />
+            )}
+
+            {mode === 'prompt' && prompt?.box && (
+                <div
+                    className="absolute border-2 border-dashed border-neo-black pointer-events-none"
+                    style={{
+                        left: prompt.box.x * scale,
+                        top: prompt.box.y * scale,
+                        width: prompt.box.width * scale,
+                        height: prompt.box.height * scale,
+                    }}
+                />
+            )}
+            {mode === 'prompt' && prompt?.points.map((p, i) => (
+                <div
+                    key={i}
+                    className={`absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-black text-[10px] leading-none font-black flex items-center justify-center pointer-events-none z-20 ${p.label === 1 ? 'bg-neo-green' : 'bg-neo-pink text-white'}`}
+                    style={{ left: p.x * scale, top: p.y * scale }}
+                >
+                    {p.label === 1 ? '+' : '−'}
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -1,13 +1,18 @@
 import { motion } from 'framer-motion';
-import { useState } from 'react';
-import { X, Edit2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { X, Edit2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { saveAs } from 'file-saver';
 import type { SegmentedObject } from '../hooks/useObjectSegmenter';
+import { renderStamp, DEFAULT_SHAPE_OPTIONS, type ShapeOptions } from '../utils/stampRenderer';
+import { isOriented } from '../utils/stampOrientation';
+import { EXPORT_PRESETS, buildPresetZip, type PresetViolation } from '../utils/exportPresets';
 
 interface ResultGridProps {
     items: SegmentedObject[];
     onRemove: (id: string) => void;
     onEdit: (item: SegmentedObject) => void;
-    shape: 'original' | 'square' | 'circle';
+    onMove: (id: string, offset: -1 | 1) => void;
+    shapeOptions: ShapeOptions;
 }
 
 const container = {
@@ -25,84 +30,87 @@ const itemAnim = {
     show: { y: 0, opacity: 1, scale: 1, transition: { type: 'spring', stiffness: 100 } as any }
 };
 
-export const ResultGrid = ({ items, onRemove, onEdit, shape }: ResultGridProps) => {
+// Rotated or flipped stamps are previewed as they will be exported; the crop shows until that is ready
+const StampImage = ({ item, className }: { item: SegmentedObject; className: string }) => {
+    const { url, rotation, flipX } = item;
+    const oriented = isOriented({ rotation, flipX });
+    const key = `${url}|${rotation ?? 0}|${flipX ? 1 : 0}`;
+    const [rendered, setRendered] = useState<{ key: string; url: string } | null>(null);
+
+    useEffect(() => {
+        if (!oriented) return;
+        let cancelled = false;
+        let objectUrl: string | null = null;
+        renderStamp({ url, rotation, flipX }, DEFAULT_SHAPE_OPTIONS).then(({ blob }) => {
+            if (cancelled) return;
+            objectUrl = URL.createObjectURL(blob);
+            setRendered({ key, url: objectUrl });
+        }).catch((e) => {
+            // The plain crop keeps showing
+            console.error("Stamp preview failed", e);
+        });
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [oriented, key, url, rotation, flipX]);
+
+    return (
+        <img
+            src={oriented && rendered?.key === key ? rendered.url : url}
+            alt="stamp"
+            className={className}
+            style={{ objectFit: 'contain' }}
+        />
+    );
+};
+
+export const ResultGrid = ({ items, onRemove, onEdit, onMove, shapeOptions }: ResultGridProps) => {
+    const shape = shapeOptions.shape;
     const [exportW, setExportW] = useState<number>(0);
     const [exportH, setExportH] = useState<number>(0);
 
-    const downloadImage = async (url: string, id: string, format: 'original' | 'resized') => {
-        if (format === 'original') {
-            // Download original full quality PNG
-            const link = document.createElement('a');
-            link.href = url;
-            link.download = `stamp-${id}.png`;
-            link.click();
-        } else {
-            // Resize logic
-            // If both 0, treat as original size (unconstrained) - but user clicked "RESIZED"
-            // Let's assume if 0, it means "don't constrain this dimension".
-            // If both are 0, we effectively do nothing but maybe re-encode? 
-            // Let's just output original logic if both provided as 0 to be safe, 
-            // OR strictly follow constraints. If 0, maybe treat as infinite?
-
-            // Logic:
-            // MaxW = exportW > 0 ? exportW : Infinity
-            // MaxH = exportH > 0 ? exportH : Infinity
-
-            const img = new Image();
-            img.src = url;
-            await new Promise(r => img.onload = r);
-
-            let width = img.width;
-            let height = img.height;
-
-            const maxW = exportW > 0 ? exportW : Infinity;
-            const maxH = exportH > 0 ? exportH : Infinity;
-
-            const scaleW = maxW / width;
-            const scaleH = maxH / height;
-
-            // We want to fit within the box, so we take the smaller scale
-            const scale = Math.min(scaleW, scaleH);
-
-            // Only scale down if scale < 1. If scale > 1 (box is bigger than image), 
-            // usually we don't upscale stamps, but maybe user wants it? 
-            // Let's assuming scaling down to fit. If we want to allow upscale, we just apply scale.
-            // Let's applied scale regardless, or maybe only if < 1?
-            // "Resize to specified size". Let's apply scale.
-
-            width *= scale;
-            height *= scale;
-
-            // Handle edge case where both are Infinity (both 0)
-            if (scale === Infinity) {
-                // Should fallback to original size
-                width = img.width;
-                height = img.height;
-            }
-
-            const canvas = document.createElement('canvas');
-            canvas.width = width;
-            canvas.height = height;
-            const ctx = canvas.getContext('2d');
-            if (ctx) {
-                // High quality scaling
-                ctx.imageSmoothingEnabled = true;
-                ctx.imageSmoothingQuality = 'high';
-                ctx.drawImage(img, 0, 0, width, height);
-
-                canvas.toBlob((blob) => {
-                    if (blob) {
-                        const newUrl = URL.createObjectURL(blob);
-                        const link = document.createElement('a');
-                        link.href = newUrl;
-                        link.download = `stamp-${id}-${Math.round(width)}x${Math.round(height)}.png`;
-                        link.click();
-                    }
-                }, 'image/png'); // Force PNG format
-            }
+    // Platform preset ('' = custom W/H)
+    const [presetId, setPresetId] = useState<string>('');
+    const [isExportingPreset, setIsExportingPreset] = useState(false);
+    const [violations, setViolations] = useState<PresetViolation[] | null>(null);
+    const preset = EXPORT_PRESETS.find(p => p.id === presetId);
+
+    const selectPreset = (id: string) => {
+        setPresetId(id);
+        setViolations(null);
+        const next = EXPORT_PRESETS.find(p => p.id === id);
+        if (next) {
+            setExportW(next.maxWidth);
+            setExportH(next.maxHeight);
         }
     };
 
+    const exportPreset = async () => {
+        if (!preset) return;
+        setIsExportingPreset(true);
+        try {
+            const result = await buildPresetZip(items, shapeOptions, preset);
+            setViolations(result.violations);
+            saveAs(result.blob, result.fileName);
+        } catch (e) {
+            console.error("Preset export failed", e);
+            alert(`The ${preset.label} set could not be exported.`);
+        } finally {
+            setIsExportingPreset(false);
+        }
+    };
+
+    const downloadImage = async (item: SegmentedObject, format: 'original' | 'resized') => {
+        // Both buttons go through the shape-aware renderer so the file matches the preview.
+        // In resized mode a 0 in W or H means "don't constrain this dimension".
+        const size = format === 'resized' ? { maxWidth: exportW, maxHeight: exportH } : undefined;
+        const { blob, width, height } = await renderStamp(item, shapeOptions, size);
+
+        const suffix = format === 'resized' ? `-${width}x${height}` : '';
+        saveAs(blob, `stamp-${item.id}${suffix}.png`);
+    };
+
     return (
         <div className="flex flex-col h-full overflow-hidden">
             {/* Export Size Controls */}
@@ -115,7 +123,7 @@ export const ResultGrid = ({ items, onRemove, onEdit, shape }: ResultGridProps)
                         <input
                             type="number"
                             value={exportW}
-                            onChange={(e) => setExportW(Number(e.target.value))}
+                            onChange={(e) => { setExportW(Number(e.target.value)); setPresetId(''); }}
                             className="w-16 border-2 border-black px-1 font-bold text-center"
                             placeholder="0"
                         />
@@ -126,12 +134,45 @@ export const ResultGrid = ({ items, onRemove, onEdit, shape }: ResultGridProps)
                         <input
                             type="number"
                             value={exportH}
-                            onChange={(e) => setExportH(Number(e.target.value))}
+                            onChange={(e) => { setExportH(Number(e.target.value)); setPresetId(''); }}
                             className="w-16 border-2 border-black px-1 font-bold text-center"
                             placeholder="0"
                         />
                     </div>
                 </div>
+
+                <div className="flex items-center gap-2">
+                    <span className="text-xs font-bold whitespace-nowrap">PRESET:</span>
+                    <select
+                        value={presetId}
+                        onChange={(e) => selectPreset(e.target.value)}
+                        className="flex-1 border-2 border-black px-1 text-xs font-bold bg-white"
+                    >
+                        <option value="">CUSTOM</option>
+                        {EXPORT_PRESETS.map(p => (
+                            <option key={p.id} value={p.id}>{p.label}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={exportPreset}
+                        disabled={!preset || isExportingPreset}
+                        className="bg-neo-green border-2 border-black px-2 py-1 text-[10px] font-bold hover:bg-white disabled:opacity-40"
+                    >
+                        {isExportingPreset ? 'EXPORTING...' : 'ZIP'}
+                    </button>
+                </div>
+
+                {violations && (
+                    <div className="text-[10px] font-bold max-h-24 overflow-y-auto">
+                        {violations.length === 0 ? (
+                            <span>ALL STAMPS PASS {preset?.label}</span>
+                        ) : violations.map((v, i) => (
+                            <div key={i} className={v.severity === 'error' ? 'text-red-600' : 'opacity-70'}>
+                                {v.index === null ? 'SET' : preset?.fileName(v.index)}: {v.message}
+                            </div>
+                        ))}
+                    </div>
+                )}
             </div>
 
             <motion.div
@@ -140,7 +181,7 @@ export const ResultGrid = ({ items, onRemove, onEdit, shape }: ResultGridProps)
                 animate="show"
                 className="grid grid-cols-2 md:grid-cols-3 gap-4 p-4 overflow-y-auto"
             >
-                {items.map((item) => (
+                {items.map((item, index) => (
                     <motion.div
                         key={item.id}
                         variants={itemAnim}
@@ -157,25 +198,23 @@ export const ResultGrid = ({ items, onRemove, onEdit, shape }: ResultGridProps)
 
                         {/* Image with Shape Masking */}
                         <div className={`relative overflow-hidden ${shape === 'original' ? '' : 'aspect-square w-full flex items-center justify-center'} ${shape === 'circle' ? 'rounded-full border-2 border-black' : ''} ${shape === 'square' ? 'border-2 border-black' : ''}`}>
-                            <img
-                                src={item.url}
-                                alt="stamp"
+                            <StampImage
+                                item={item}
                                 className={`max-w-full max-h-32 object-contain filter drop-shadow-lg transition-all ${shape !== 'original' ? 'w-full h-full object-cover' : ''}`}
-                                style={{ objectFit: 'contain' }}
                             />
                         </div>
 
                         <div className="absolute top-0 right-0 p-1 opacity-0 group-hover:opacity-100 transition-opacity flex gap-1">
                             <div className="flex flex-col gap-1">
                                 <button
-                                    onClick={() => downloadImage(item.url, item.id, 'original')}
+                                    onClick={() => downloadImage(item, 'original')}
                                     className="bg-neo-green border-2 border-black p-1 hover:bg-white transition-colors shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] active:translate-x-[2px] active:translate-y-[2px] active:shadow-none text-[10px] font-bold"
                                     title="Download Original (PNG)"
                                 >
                                     PNG
                                 </button>
                                 <button
-                                    onClick={() => downloadImage(item.url, item.id, 'resized')}
+                                    onClick={() => downloadImage(item, 'resized')}
                                     className="bg-neo-blue border-2 border-black p-1 hover:bg-white transition-colors shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] active:translate-x-[2px] active:translate-y-[2px] active:shadow-none text-[10px] font-bold"
                                     title="Download Resized"
                                 >
@@ -198,6 +237,26 @@ export const ResultGrid = ({ items, onRemove, onEdit, shape }: ResultGridProps)
                                 </button>
                             </div>
                         </div>
+
+                        {/* Reorder */}
+                        <div className="absolute bottom-0 left-0 p-1 opacity-0 group-hover:opacity-100 transition-opacity flex gap-1">
+                            <button
+                                onClick={() => onMove(item.id, -1)}
+                                disabled={index === 0}
+                                className="bg-white border-2 border-black hover:bg-neo-yellow disabled:opacity-30"
+                                title="Move Earlier"
+                            >
+                                <ChevronLeft size={14} color="black" />
+                            </button>
+                            <button
+                                onClick={() => onMove(item.id, 1)}
+                                disabled={index === items.length - 1}
+                                className="bg-white border-2 border-black hover:bg-neo-yellow disabled:opacity-30"
+                                title="Move Later"
+                            >
+                                <ChevronRight size={14} color="black" />
+                            </button>
+                        </div>
                     </motion.div>
                 ))}
             </motion.div>
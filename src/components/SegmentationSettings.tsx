@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { SlidersHorizontal, ChevronDown, ChevronUp } from 'lucide-react';
+import { DEFAULT_SEGMENTATION_OPTIONS, type SegmentationOptions } from '../hooks/useObjectSegmenter';
+
+interface SegmentationSettingsProps {
+    options: SegmentationOptions;
+    onChange: (options: SegmentationOptions) => void;
+    onApplyCurrent: () => void;
+    onApplyAll: () => void;
+    isBusy: boolean;
+    progress: number;
+    hasCurrentSource: boolean;
+}
+
+type NumericKey = Exclude<keyof SegmentationOptions, 'evenDimensions' | 'autoStraighten'>;
+
+const FIELDS: { key: NumericKey; label: string; min: number; max: number; step: number; hint: string }[] = [
+    { key: 'alphaThreshold', label: 'ALPHA THRESHOLD', min: 0, max: 254, step: 1, hint: 'Higher drops faint halos' },
+    { key: 'dilationRadius', label: 'MERGE DISTANCE', min: 0, max: 60, step: 1, hint: 'Lower splits tightly packed stamps' },
+    { key: 'minBoxArea', label: 'MIN BOX AREA', min: 0, max: 10000, step: 50, hint: 'Smaller keeps tiny stamps' },
+    { key: 'minPixelCount', label: 'MIN PIXELS', min: 0, max: 5000, step: 10, hint: 'Smaller keeps tiny stamps' },
+    { key: 'padding', label: 'PADDING', min: 0, max: 60, step: 1, hint: 'Margin around each stamp' },
+];
+
+export const SegmentationSettings = ({ options, onChange, onApplyCurrent, onApplyAll, isBusy, progress, hasCurrentSource }: SegmentationSettingsProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    return (
+        <div className="border-b-3 border-black bg-white">
+            <button
+                onClick={() => setIsOpen(o => !o)}
+                className="w-full flex items-center justify-between px-4 py-2 text-xs font-bold hover:bg-gray-100"
+            >
+                <span className="flex items-center gap-2"><SlidersHorizontal size={14} /> SEGMENTATION SETTINGS</span>
+                {isOpen ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+            </button>
+
+            {isOpen && (
+                <div className="px-4 pb-3 flex flex-col gap-2">
+                    {FIELDS.map(f => (
+                        <label key={f.key} className="flex flex-col text-[10px] font-bold" title={f.hint}>
+                            <div className="flex justify-between">
+                                <span>{f.label}</span>
+                                <span>{options[f.key]}</span>
+                            </div>
+                            <input
+                                type="range"
+                                min={f.min}
+                                max={f.max}
+                                step={f.step}
+                                value={options[f.key]}
+                                onChange={(e) => onChange({ ...options, [f.key]: Number(e.target.value) })}
+                                className="accent-neo-black"
+                            />
+                        </label>
+                    ))}
+
+                    <label className="flex items-center gap-2 text-[10px] font-bold">
+                        <input
+                            type="checkbox"
+                            checked={options.evenDimensions}
+                            onChange={(e) => onChange({ ...options, evenDimensions: e.target.checked })}
+                            className="accent-neo-black"
+                        />
+                        EVEN DIMENSIONS
+                    </label>
+
+                    <label className="flex items-center gap-2 text-[10px] font-bold" title="Rotate tilted rectangular stamps upright; round stamps are left as they are">
+                        <input
+                            type="checkbox"
+                            checked={options.autoStraighten}
+                            onChange={(e) => onChange({ ...options, autoStraighten: e.target.checked })}
+                            className="accent-neo-black"
+                        />
+                        AUTO STRAIGHTEN
+                    </label>
+
+                    <div className="flex gap-2 mt-1">
+                        <button
+                            onClick={onApplyCurrent}
+                            disabled={isBusy || !hasCurrentSource}
+                            className="flex-1 border-2 border-black px-2 py-1 text-[10px] font-bold bg-neo-green hover:bg-white disabled:opacity-40"
+                        >
+                            {isBusy ? `RUNNING ${Math.round(progress)}%` : 'RE-RUN THIS IMAGE'}
+                        </button>
+                        <button
+                            onClick={onApplyAll}
+                            disabled={isBusy}
+                            className="flex-1 border-2 border-black px-2 py-1 text-[10px] font-bold bg-white hover:bg-gray-100 disabled:opacity-40"
+                        >
+                            RE-RUN ALL
+                        </button>
+                        <button
+                            onClick={() => onChange(DEFAULT_SEGMENTATION_OPTIONS)}
+                            className="border-2 border-black px-2 py-1 text-[10px] font-bold bg-white hover:bg-gray-100"
+                        >
+                            RESET
+                        </button>
+                    </div>
+                    <p className="text-[10px] opacity-60">Re-running replaces that image's stamps, including manual edits. The background removal result is reused.</p>
+                </div>
+            )}
+        </div>
+    );
+};
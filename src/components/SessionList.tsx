@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { History, Trash2, Play } from 'lucide-react';
+import { listSessions, deleteSession, getStorageQuota, type SessionSummary, type StorageQuota } from '../utils/sessionStore';
+
+interface SessionListProps {
+    onResume: (id: string) => void;
+}
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
+
+export const SessionList = ({ onResume }: SessionListProps) => {
+    const [sessions, setSessions] = useState<SessionSummary[]>([]);
+    const [quota, setQuota] = useState<StorageQuota | null>(null);
+
+    // Bumped after a delete to re-read the list
+    const [version, setVersion] = useState(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all([listSessions(), getStorageQuota()])
+            .then(([list, q]) => {
+                if (cancelled) return;
+                setSessions(list);
+                setQuota(q);
+            })
+            .catch(e => {
+                // IndexedDB can be unavailable (e.g. some private browsing modes)
+                console.error("Failed to read saved sessions", e);
+            });
+        return () => { cancelled = true; };
+    }, [version]);
+
+    const handleDelete = async (id: string) => {
+        if (!confirm('Delete this saved session?')) return;
+        await deleteSession(id);
+        setVersion(v => v + 1);
+    };
+
+    if (sessions.length === 0) return null;
+
+    return (
+        <div className="mt-6 text-left border-t-2 border-black pt-4">
+            <h2 className="font-bold text-sm flex items-center gap-2 mb-2"><History size={16} /> SAVED SESSIONS</h2>
+
+            <ul className="flex flex-col gap-2 max-h-48 overflow-y-auto">
+                {sessions.map(s => (
+                    <li key={s.id} className="flex items-center gap-2 border-2 border-black p-2 bg-neo-white">
+                        <div className="flex-1 min-w-0">
+                            <div className="font-bold text-sm truncate">{s.name}</div>
+                            <div className="text-[10px] opacity-60 font-bold">
+                                {s.sourceCount} IMAGES · {s.segmentCount} STAMPS · {new Date(s.updatedAt).toLocaleString()}
+                            </div>
+                        </div>
+                        <button onClick={() => onResume(s.id)} title="Resume" className="bg-neo-green border-2 border-black p-1 hover:bg-white">
+                            <Play size={14} />
+                        </button>
+                        <button onClick={() => handleDelete(s.id)} title="Delete" className="bg-neo-pink border-2 border-black p-1 hover:bg-white">
+                            <Trash2 size={14} />
+                        </button>
+                    </li>
+                ))}
+            </ul>
+
+            {quota && quota.quota > 0 && (
+                <div className="mt-3">
+                    <div className="h-2 border-2 border-black bg-white">
+                        <div className="h-full bg-neo-black" style={{ width: `${Math.min(100, (quota.usage / quota.quota) * 100)}%` }} />
+                    </div>
+                    <div className="text-[10px] font-bold opacity-60 mt-1">
+                        STORAGE: {formatBytes(quota.usage)} / {formatBytes(quota.quota)}{quota.persisted ? ' · PERSISTENT' : ''}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,55 @@
+import { Trash2, Loader2 } from 'lucide-react';
+
+export interface SourceSummary {
+    id: string;
+    url: string; // original image
+    stampCount: number;
+    busy: boolean; // segmentation is re-running for this source
+}
+
+interface SourceStripProps {
+    sources: SourceSummary[];
+    currentId: string | null;
+    onSelect: (id: string) => void;
+    onRemove: (id: string) => void;
+}
+
+// Filmstrip of the session's source images under the canvas
+export const SourceStrip = ({ sources, currentId, onSelect, onRemove }: SourceStripProps) => {
+    if (sources.length === 0) return null;
+
+    return (
+        <div className="relative z-20 w-full shrink-0 border-t-3 border-black bg-white">
+            <div className="flex items-center justify-between px-3 pt-1 text-[10px] font-bold">
+                <span>IMAGES ({sources.length})</span>
+                {sources.length > 1 && <span className="opacity-50">← → TO SWITCH</span>}
+            </div>
+            <ul className="flex gap-2 overflow-x-auto p-2">
+                {sources.map((source, index) => (
+                    <li key={source.id} className="relative shrink-0 group">
+                        <button
+                            onClick={() => onSelect(source.id)}
+                            title={`Image ${index + 1}: ${source.stampCount} stamps`}
+                            className={`block w-20 h-20 border-3 bg-white overflow-hidden ${source.id === currentId ? 'border-neo-black shadow-neo-sm' : 'border-black/20 hover:border-black'}`}
+                        >
+                            <img src={source.url} alt={`Image ${index + 1}`} className="w-full h-full object-contain" />
+                        </button>
+                        <span className="absolute top-1 left-1 bg-white border border-black px-1 text-[9px] font-bold">{index + 1}</span>
+                        <span className={`absolute bottom-1 left-1 border border-black px-1 text-[9px] font-bold flex items-center gap-0.5 ${source.stampCount === 0 ? 'bg-neo-pink text-white' : 'bg-neo-green'}`}>
+                            {source.busy ? <Loader2 size={9} className="animate-spin" /> : null}
+                            {source.busy ? '...' : source.stampCount === 0 ? 'NO STAMPS' : source.stampCount}
+                        </span>
+                        <button
+                            onClick={() => onRemove(source.id)}
+                            disabled={source.busy}
+                            title={source.busy ? 'Wait for segmentation to finish' : 'Remove this image and its stamps'}
+                            className="absolute top-1 right-1 bg-white border border-black p-0.5 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-neo-pink hover:text-white disabled:cursor-not-allowed disabled:hover:bg-white disabled:hover:text-black"
+                        >
+                            <Trash2 size={10} />
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
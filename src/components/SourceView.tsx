@@ -0,0 +1,120 @@
+import { useEffect, useRef } from 'react';
+
+// What is drawn under the region boxes:
+// 'original':    the uploaded image
+// 'transparent': the background-removal result on a checkerboard
+// 'mask':        the result's alpha channel as a heatmap, to spot half-kept pixels
+// 'split':       result left of a draggable divider, original right of it
+export type SourceViewMode = 'original' | 'transparent' | 'mask' | 'split';
+
+interface SourceViewProps {
+    mode: SourceViewMode;
+    originalUrl: string;
+    bitmap: ImageBitmap; // same size as the original
+    split: number; // 0-1, divider position for 'split'
+    onSplitChange: (split: number) => void;
+    pixelated: boolean; // zoomed in far enough to show single pixels
+}
+
+const CHECKERBOARD = 'bg-white bg-[conic-gradient(#e5e5e5_25%,transparent_25%_50%,#e5e5e5_50%_75%,transparent_75%)] [background-size:16px_16px]';
+
+// Alpha 0 -> deep blue, half -> pink, opaque -> yellow
+const HEAT_STOPS: [number, number, number][] = [[16, 16, 80], [255, 0, 255], [255, 255, 0]];
+
+function heatColor(alpha: number): [number, number, number] {
+    const t = alpha / 255 * (HEAT_STOPS.length - 1);
+    const i = Math.min(HEAT_STOPS.length - 2, Math.floor(t));
+    const f = t - i;
+    const [a, b] = [HEAT_STOPS[i], HEAT_STOPS[i + 1]];
+    return [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f];
+}
+
+const HEAT_LUT = Array.from({ length: 256 }, (_, alpha) => heatColor(alpha));
+
+// Draws the bitmap, or its alpha heatmap, at full resolution; CSS scales it to the stage
+const BitmapCanvas = ({ bitmap, heatmap, className, style }: { bitmap: ImageBitmap; heatmap: boolean; className?: string; style?: React.CSSProperties }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+        ctx.drawImage(bitmap, 0, 0);
+        if (!heatmap) return;
+
+        const image = ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+        const data = image.data;
+        for (let i = 0; i < data.length; i += 4) {
+            const [r, g, b] = HEAT_LUT[data[i + 3]];
+            data[i] = r;
+            data[i + 1] = g;
+            data[i + 2] = b;
+            data[i + 3] = 255;
+        }
+        ctx.putImageData(image, 0, 0);
+    }, [bitmap, heatmap]);
+
+    return <canvas ref={canvasRef} className={className} style={style} />;
+};
+
+export const SourceView = ({ mode, originalUrl, bitmap, split, onSplitChange, pixelated }: SourceViewProps) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const imageRendering = pixelated ? 'pixelated' : 'auto';
+
+    const dragSplit = (e: React.PointerEvent) => {
+        const rect = containerRef.current!.getBoundingClientRect();
+        onSplitChange(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+    };
+
+    const original = (
+        <img
+            src={originalUrl}
+            alt="Original"
+            draggable={false}
+            className="absolute inset-0 block w-full h-full select-none"
+            style={{ imageRendering }}
+        />
+    );
+
+    return (
+        <div ref={containerRef} className={`absolute inset-0 ${mode === 'original' ? '' : CHECKERBOARD}`}>
+            {mode === 'original' && original}
+            {(mode === 'transparent' || mode === 'mask') && (
+                <BitmapCanvas bitmap={bitmap} heatmap={mode === 'mask'} className="absolute inset-0 w-full h-full" style={{ imageRendering }} />
+            )}
+            {mode === 'split' && (
+                <>
+                    <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${split * 100}%)` }}>
+                        {original}
+                    </div>
+                    <BitmapCanvas
+                        bitmap={bitmap}
+                        heatmap={false}
+                        className="absolute inset-0 w-full h-full"
+                        style={{ imageRendering, clipPath: `inset(0 ${(1 - split) * 100}% 0 0)` }}
+                    />
+                    {/* Divider sits above the region overlay so it can always be grabbed */}
+                    <div
+                        className="absolute top-0 bottom-0 z-30 w-4 -ml-2 cursor-ew-resize touch-none flex justify-center"
+                        style={{ left: `${split * 100}%` }}
+                        onPointerDown={(e) => {
+                            e.stopPropagation();
+                            e.currentTarget.setPointerCapture(e.pointerId);
+                        }}
+                        onPointerMove={(e) => {
+                            if (e.currentTarget.hasPointerCapture(e.pointerId)) dragSplit(e);
+                        }}
+                    >
+                        <div className="w-1 h-full bg-neo-pink border-x border-black" />
+                        <div className="absolute top-1/2 -translate-y-1/2 bg-neo-pink text-white border-2 border-black text-[10px] font-bold px-1 whitespace-nowrap">
+                            RESULT | ORIGINAL
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
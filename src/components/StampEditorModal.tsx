@@ -1,19 +1,93 @@
 import { useRef, useEffect, useState } from 'react';
-import { X, Check } from 'lucide-react';
+import { X, Check, Undo2, Redo2, Hand, ZoomIn, ZoomOut, Wand2, Pipette, Lasso, MousePointerClick } from 'lucide-react';
 import type { SegmentedObject } from '../hooks/useObjectSegmenter';
+import type { PromptMask, PromptPoint, SegmentPrompt } from '../hooks/usePromptSegmenter';
+import { useZoomPan } from '../hooks/useZoomPan';
+import { clampBox, type Box } from '../utils/regionCrop';
+import { applySelection, colorSelection } from '../utils/maskSelect';
+import { alphaBounds, alphaFromImageData, alphaToImageData, isRefining, refineAlpha, NO_REFINE, type RefineOptions } from '../utils/maskRefine';
+
+// 'wand':  tolerance-based region of similar color, contiguous or global
+// 'color': erases every pixel close to the clicked color
+// 'lasso': drag a freehand outline, or click polygon points (double-click / Enter to close)
+// 'prompt': click-to-refine, the model redraws the whole mask from the clicks
+type Tool = 'erase' | 'restore' | 'wand' | 'color' | 'lasso' | 'prompt' | 'pan';
+
+// Polygon points closer than this to the first one (screen px) close the lasso
+const LASSO_CLOSE_DISTANCE = 8;
+
+// The saved stamp, cropped to what the mask keeps; bounds are in source image px
+export type StampEdit = Pick<SegmentedObject, 'url' | 'x' | 'y' | 'width' | 'height'>;
+
+// MARGIN buttons step by this many px around the original box
+const MARGIN_STEP = 32;
+const MAX_MARGIN = 512;
+
+// A brush dab in mask px; the radius already includes pen pressure
+interface StrokePoint {
+    x: number;
+    y: number;
+    radius: number;
+}
+
+// Lightest pen touch still paints at this fraction of the brush size
+const MIN_PRESSURE_SCALE = 0.1;
 
 interface StampEditorModalProps {
     segment: SegmentedObject;
     sourceImage: string; // URL of original full image
-    onSave: (newUrl: string) => void;
+    onSave: (edit: StampEdit) => void;
     onClose: () => void;
+    onPromptSegment: (prompt: SegmentPrompt) => Promise<PromptMask | null>; // click-to-refine, in source image px
 }
 
-export const StampEditorModal = ({ segment, sourceImage, onSave, onClose }: StampEditorModalProps) => {
+const REFINE_SLIDERS: { key: keyof RefineOptions; label: string; min: number; max: number; unit: string }[] = [
+    { key: 'feather', label: 'FEATHER', min: 0, max: 20, unit: 'px' },
+    { key: 'edge', label: 'SHRINK / GROW', min: -20, max: 20, unit: 'px' },
+    { key: 'removeIslands', label: 'REMOVE ISLANDS <', min: 0, max: 2000, unit: 'px²' },
+    { key: 'fillHoles', label: 'FILL HOLES <', min: 0, max: 2000, unit: 'px²' },
+];
+
+export const StampEditorModal = ({ segment, sourceImage, onSave, onClose, onPromptSegment }: StampEditorModalProps) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
-    const [tool, setTool] = useState<'restore' | 'erase'>('erase');
-    const [brushSize, setBrushSize] = useState(20);
-    const [isDrawing, setIsDrawing] = useState(false);
+    const [tool, setTool] = useState<Tool>('erase');
+    const [brushSize, setBrushSize] = useState(20); // diameter in stamp px
+    const [hardness, setHardness] = useState(100); // % of the radius painted at full strength
+    const [opacity, setOpacity] = useState(100); // % strength of one stroke, however often it overlaps itself
+    const [refine, setRefine] = useState<RefineOptions>(NO_REFINE);
+    // Wand and lasso fill their selection as kept or removed; the color tool always removes
+    const [selectionMode, setSelectionMode] = useState<'keep' | 'remove'>('remove');
+    const [tolerance, setTolerance] = useState(20); // 0-100 % of the largest RGB distance
+    const [contiguous, setContiguous] = useState(true);
+    const [lasso, setLasso] = useState<{ points: { x: number; y: number }[]; hover: { x: number; y: number } | null } | null>(null);
+    const lassoDragRef = useRef<{ pointerId: number; startX: number; startY: number; freehand: boolean } | null>(null);
+    // Click-to-refine points in source image px, so they stay put when the margin changes
+    const [promptPoints, setPromptPoints] = useState<PromptPoint[]>([]);
+    const [promptBusy, setPromptBusy] = useState(false);
+    const promptRunRef = useRef(0);
+    const isBrush = tool === 'erase' || tool === 'restore';
+    const selectTool = (next: Tool) => {
+        setTool(next);
+        setLasso(null);
+        setPromptPoints([]);
+        promptRunRef.current++;
+        setPromptBusy(false);
+    };
+    // Shown instead of the mask until applied (an undoable step) or reset. Painting waits meanwhile.
+    const previewMaskRef = useRef<HTMLCanvasElement | null>(null);
+    const refining = isRefining(refine);
+    // Part of the source image the canvas covers: the stamp's box plus `margin` on
+    // each side (clipped to the image), so the restore brush can reach past the box
+    const [margin, setMargin] = useState(0);
+    const [frame, setFrame] = useState<Box>({ x: segment.x, y: segment.y, width: segment.width, height: segment.height });
+    const sourceImageRef = useRef<HTMLImageElement | null>(null);
+    // The canvas keeps the frame's native size; zooming only changes its CSS size
+    const viewportRef = useRef<HTMLDivElement>(null);
+    const zoomPan = useZoomPan(viewportRef, frame.width, frame.height, {
+        panWithPrimary: tool === 'pan',
+        resetKey: segment.id,
+    });
+    const { view } = zoomPan;
 
     // Load images
     useEffect(() => {
@@ -33,11 +107,7 @@ export const StampEditorModal = ({ segment, sourceImage, onSave, onClose }: Stam
             new Promise(r => imgSource.onload = r),
             new Promise(r => imgStamp.onload = r)
         ]).then(() => {
-            // Setup canvas size to match the STAMP bounds (plus padding if we want? No, keep segment bounds)
-            // But if we want to restore outside bounds, we might need a bigger canvas?
-            // For MVP: Restrict editing to the current bounding box of the segment.
-            // If they want to restore something WAY outside, they should probably re-crop or we need a bigger logic.
-            // Let's stick to current bounds for simplicity.
+            // Setup canvas size to match the STAMP bounds; MARGIN widens it later (see changeMargin)
 
             canvas.width = segment.width;
             canvas.height = segment.height;
@@ -94,6 +164,7 @@ export const StampEditorModal = ({ segment, sourceImage, onSave, onClose }: Stam
     const init = (imgSource: HTMLImageElement, imgStamp: HTMLImageElement) => {
         const width = segment.width;
         const height = segment.height;
+        sourceImageRef.current = imgSource;
 
         // 1. Source Canvas (Cropped Original)
         const sCanvas = document.createElement('canvas');
@@ -111,64 +182,9 @@ export const StampEditorModal = ({ segment, sourceImage, onSave, onClose }: Stam
         mCanvas.height = height;
         const mCtx = mCanvas.getContext('2d');
         if (mCtx) {
-            // Draw the stamp. The alpha channel is what we want.
-            // If we draw the stamp, we have Color + Alpha.
-            // We want a grayscale mask where Opaque = White, Transparent = Black.
-            // How to extract?
-            mCtx.drawImage(imgStamp, 0, 0);
-            const imageData = mCtx.getImageData(0, 0, width, height);
-            const data = imageData.data;
-            for (let i = 0; i < data.length; i += 4) {
-                // const alpha = data[i + 3]; // Alpha - Unused
-                // Set RGB to 255 (White) if we treat it as a mask, but...
-                // Actually, let's just use the Alpha channel as the mask value.
-                // But for visualization/editing, it's easier if we draw "Color" on this canvas to represent alpha?
-                // Let's make this canvas purely for "Compositing".
-                // Actually, simplest is:
-                // mCtx holds the "Result Image" (RGBA).
-                // "Erase" -> compositeOperation 'destination-out', draw brush.
-                // "Restore" -> compositeOperation 'source-over', draw from `sourceCanvas` using brush as mask?
-                //   No, restoring is tricky if we don't have the source data in the brush.
-            }
-
-            // Better Mask Approach:
-            // mCanvas comes formatted as: Black background, White shape?
-            // Let's just keep `mCanvas` as the "Alpha Mask" (Grayscale).
-            // Init:
-            //   Draw Stamp.
-            //   Composite 'source-in' with White rectangle? -> Result is White shape on Transparent bg.
-            //   Draw Black rectangle behind? -> Result is White shape on Black bg.
-            mCtx.globalCompositeOperation = 'source-over';
-            mCtx.fillStyle = 'black';
-            mCtx.fillRect(0, 0, width, height);
-
-            mCtx.globalCompositeOperation = 'source-over';
-            mCtx.drawImage(imgStamp, 0, 0);
-            // Now we have the stamp over black.
-            // But we want the MASK. The stamp has colors.
-            // We need to turn non-transparent pixels to White.
-            // Complex...
-
-            // Let's go brute force for init.
-            mCtx.clearRect(0, 0, width, height);
+            // White pixels carrying the stamp's alpha unchanged, so the matte's soft edges survive
             mCtx.drawImage(imgStamp, 0, 0);
-            const idata = mCtx.getImageData(0, 0, width, height);
-            for (let i = 0; i < idata.data.length; i += 4) {
-                if (idata.data[i + 3] > 0) {
-                    idata.data[i] = 255;
-                    idata.data[i + 1] = 255;
-                    idata.data[i + 2] = 255;
-                    idata.data[i + 3] = 255; // Full opaque white
-                } else {
-                    idata.data[i] = 0;
-                    idata.data[i + 1] = 0;
-                    idata.data[i + 2] = 0;
-                    idata.data[i + 3] = 0; // Transparent
-                    // Actually for a mask we want Opaque Black?
-                    // Let's use Alpha for the mask logic.
-                    // High Alpha = Keep. Low Alpha = Remove.
-                }
-            }
+            const idata = alphaToImageData(alphaFromImageData(mCtx.getImageData(0, 0, width, height)), width, height);
             mCtx.putImageData(idata, 0, 0);
         }
         maskCanvasRef.current = mCanvas;
@@ -179,7 +195,7 @@ export const StampEditorModal = ({ segment, sourceImage, onSave, onClose }: Stam
     const draw = () => {
         const canvas = canvasRef.current;
         const sCanvas = sourceCanvasRef.current;
-        const mCanvas = maskCanvasRef.current;
+        const mCanvas = previewMaskRef.current ?? maskCanvasRef.current;
         if (!canvas || !sCanvas || !mCanvas) return;
 
         const ctx = canvas.getContext('2d');
@@ -213,56 +229,473 @@ export const StampEditorModal = ({ segment, sourceImage, onSave, onClose }: Stam
         }
     };
 
-    const handleMouseMove = (e: React.MouseEvent) => {
-        if (!isDrawing || !maskCanvasRef.current) return;
+    // Repaint at most once per frame however many pointer events arrive
+    const drawFrameRef = useRef(0);
+    const scheduleDraw = () => {
+        if (drawFrameRef.current) return;
+        drawFrameRef.current = requestAnimationFrame(() => {
+            drawFrameRef.current = 0;
+            if (strokeRef.current) applyStroke();
+            draw();
+        });
+    };
 
-        const rect = canvasRef.current?.getBoundingClientRect();
-        if (!rect) return;
+    // Maps through the canvas' rendered size, so any CSS scaling or zoom is accounted for
+    const toStrokePoint = (e: PointerEvent): StrokePoint => {
+        const canvas = canvasRef.current!;
+        const rect = canvas.getBoundingClientRect();
+        const pressure = e.pointerType === 'pen' ? Math.max(MIN_PRESSURE_SCALE, e.pressure) : 1;
+        return {
+            x: (e.clientX - rect.left) * canvas.width / rect.width,
+            y: (e.clientY - rect.top) * canvas.height / rect.height,
+            radius: brushSize / 2 * pressure,
+        };
+    };
 
-        const x = e.clientX - rect.left;
-        const y = e.clientY - rect.top;
+    // A stroke is painted at full strength into its own buffer, then laid over the
+    // mask as it was before the stroke at the brush opacity, so overlaps don't build up
+    const strokeCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const strokeBaseRef = useRef<ImageData | null>(null);
 
-        const mCtx = maskCanvasRef.current.getContext('2d');
-        if (!mCtx) return;
+    const dab = (ctx: CanvasRenderingContext2D, x: number, y: number, radius: number) => {
+        const inner = radius * hardness / 100;
+        if (inner >= radius - 0.5) {
+            ctx.fillStyle = 'rgba(255,255,255,1)';
+        } else {
+            const gradient = ctx.createRadialGradient(x, y, inner, x, y, radius);
+            gradient.addColorStop(0, 'rgba(255,255,255,1)');
+            gradient.addColorStop(1, 'rgba(255,255,255,0)');
+            ctx.fillStyle = gradient;
+        }
+        ctx.beginPath();
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+        ctx.fill();
+    };
 
+    // Dabs every quarter radius between the two points so fast strokes have no gaps
+    const paintSegment = (from: StrokePoint, to: StrokePoint) => {
+        const sCtx = strokeCanvasRef.current?.getContext('2d');
+        if (!sCtx) return;
+
+        const distance = Math.hypot(to.x - from.x, to.y - from.y);
+        const spacing = Math.max(0.5, Math.min(from.radius, to.radius) / 4);
+        const steps = Math.max(1, Math.ceil(distance / spacing));
+        for (let i = 1; i <= steps; i++) {
+            const t = i / steps;
+            dab(sCtx, from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, from.radius + (to.radius - from.radius) * t);
+        }
+    };
+
+    // Restore adds the stroke's coverage to the mask, erase takes it away
+    const applyStroke = () => {
+        const mCtx = maskCanvasRef.current?.getContext('2d');
+        const strokeCanvas = strokeCanvasRef.current;
+        const base = strokeBaseRef.current;
+        if (!mCtx || !strokeCanvas || !base) return;
+
+        mCtx.putImageData(base, 0, 0);
+        mCtx.save();
+        mCtx.globalAlpha = opacity / 100;
+        mCtx.globalCompositeOperation = tool === 'restore' ? 'source-over' : 'destination-out';
+        mCtx.drawImage(strokeCanvas, 0, 0);
+        mCtx.restore();
+    };
+
+    const strokeRef = useRef<{ pointerId: number; last: StrokePoint } | null>(null);
+    // Brush outline in viewport px; hidden for touch, which has no hover
+    const [cursor, setCursor] = useState<{ x: number; y: number; radius: number } | null>(null);
+
+    const updateCursor = (e: React.PointerEvent, radius: number) => {
+        const viewport = viewportRef.current;
+        if (!viewport || e.pointerType === 'touch' || !isBrush) return setCursor(null);
+        const rect = viewport.getBoundingClientRect();
+        setCursor({ x: e.clientX - rect.left, y: e.clientY - rect.top, radius: radius * view.zoom });
+    };
+
+    // Wand and color tools: select by the source colors, then set the mask there in one step
+    const applyColorTool = (point: StrokePoint) => {
+        const sCanvas = sourceCanvasRef.current;
+        const mCanvas = maskCanvasRef.current;
+        const sCtx = sCanvas?.getContext('2d');
+        const mCtx = mCanvas?.getContext('2d');
+        if (!sCanvas || !mCanvas || !sCtx || !mCtx) return;
+
+        const selection = colorSelection(sCtx.getImageData(0, 0, sCanvas.width, sCanvas.height), point.x, point.y, tolerance, tool === 'wand' && contiguous);
+        beginStroke();
+        const mask = mCtx.getImageData(0, 0, mCanvas.width, mCanvas.height);
+        applySelection(mask, selection, tool === 'wand' && selectionMode === 'keep');
+        mCtx.putImageData(mask, 0, 0);
+        draw();
+    };
+
+    const fillLasso = (points: { x: number; y: number }[]) => {
+        setLasso(null);
+        const mCtx = maskCanvasRef.current?.getContext('2d');
+        if (!mCtx || points.length < 3) return;
+
+        beginStroke();
+        mCtx.save();
+        mCtx.globalCompositeOperation = selectionMode === 'keep' ? 'source-over' : 'destination-out';
+        mCtx.fillStyle = 'rgba(255,255,255,1)';
         mCtx.beginPath();
-        mCtx.arc(x, y, brushSize / 2, 0, Math.PI * 2);
+        points.forEach((p, i) => (i === 0 ? mCtx.moveTo(p.x, p.y) : mCtx.lineTo(p.x, p.y)));
+        mCtx.closePath();
+        mCtx.fill();
+        mCtx.restore();
+        draw();
+    };
 
-        if (tool === 'restore') {
-            // Draw White (Opaque)
-            mCtx.fillStyle = 'rgba(255,255,255,1)';
-            mCtx.globalCompositeOperation = 'source-over';
-            mCtx.fill();
-        } else {
-            // Erase (Transparent)
-            mCtx.globalCompositeOperation = 'destination-out';
-            mCtx.fill();
+    const handleLassoDown = (e: React.PointerEvent<HTMLCanvasElement>, point: StrokePoint) => {
+        const p = { x: point.x, y: point.y };
+        if (lasso) {
+            // Polygon in progress: clicking the first point closes it, anywhere else adds one
+            const first = lasso.points[0];
+            if (lasso.points.length >= 3 && Math.hypot(p.x - first.x, p.y - first.y) * view.zoom < LASSO_CLOSE_DISTANCE) {
+                fillLasso(lasso.points);
+            } else {
+                setLasso({ points: [...lasso.points, p], hover: p });
+            }
+            return;
         }
+        e.currentTarget.setPointerCapture(e.pointerId);
+        lassoDragRef.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, freehand: false };
+        setLasso({ points: [p], hover: null });
+    };
 
+    // Each click re-runs the model with every point so far and replaces the mask (one undo step each)
+    const applyPrompt = async (points: PromptPoint[]) => {
+        setPromptPoints(points);
+        const run = ++promptRunRef.current;
+        const target = frame;
+        setPromptBusy(true);
+        let mask: PromptMask | null;
+        try {
+            mask = await onPromptSegment({ points, box: null });
+        } catch (error) {
+            if (run === promptRunRef.current) {
+                setPromptBusy(false);
+                alert(`Click-to-refine failed: ${error instanceof Error ? error.message : String(error)}`);
+            }
+            return;
+        }
+        if (run !== promptRunRef.current) return;
+        setPromptBusy(false);
+
+        const mCtx = maskCanvasRef.current?.getContext('2d');
+        if (!mask || !mCtx) return;
+        const alpha = new Uint8ClampedArray(target.width * target.height);
+        for (let y = 0; y < target.height; y++) {
+            const my = target.y + y - mask.y;
+            if (my < 0 || my >= mask.height) continue;
+            for (let x = 0; x < target.width; x++) {
+                const mx = target.x + x - mask.x;
+                if (mx >= 0 && mx < mask.width) alpha[y * target.width + x] = mask.alpha[my * mask.width + mx];
+            }
+        }
+        beginStroke();
+        mCtx.putImageData(alphaToImageData(alpha, target.width, target.height), 0, 0);
         draw();
     };
 
-    // Simple Save
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (tool === 'prompt' && !refining && (e.button === 0 || e.button === 2)) {
+            // Shift, Alt or the right button mark a part to leave out
+            const point = toStrokePoint(e.nativeEvent);
+            const label = e.button === 2 || e.shiftKey || e.altKey ? 0 : 1;
+            applyPrompt([...promptPoints, { x: frame.x + point.x, y: frame.y + point.y, label }]);
+            return;
+        }
+        if (e.button !== 0 || tool === 'pan' || strokeRef.current || refining) return;
+        const mCanvas = maskCanvasRef.current;
+        if (!mCanvas) return;
+
+        if (tool === 'wand' || tool === 'color') return applyColorTool(toStrokePoint(e.nativeEvent));
+        if (tool === 'lasso') return handleLassoDown(e, toStrokePoint(e.nativeEvent));
+
+        beginStroke();
+        strokeBaseRef.current = undoStackRef.current[undoStackRef.current.length - 1] ?? null;
+        const strokeCanvas = strokeCanvasRef.current ?? document.createElement('canvas');
+        strokeCanvas.width = mCanvas.width; // also clears it
+        strokeCanvas.height = mCanvas.height;
+        strokeCanvasRef.current = strokeCanvas;
+
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const point = toStrokePoint(e.nativeEvent);
+        strokeRef.current = { pointerId: e.pointerId, last: point };
+        paintSegment(point, point);
+        scheduleDraw();
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (tool === 'lasso' && lasso) {
+            const p = toStrokePoint(e.nativeEvent);
+            const drag = lassoDragRef.current;
+            if (drag && drag.pointerId === e.pointerId) {
+                // Past a small slop the first press becomes a freehand outline
+                if (!drag.freehand && Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) < LASSO_CLOSE_DISTANCE) return;
+                drag.freehand = true;
+                setLasso(prev => prev && { points: [...prev.points, { x: p.x, y: p.y }], hover: null });
+            } else {
+                setLasso(prev => prev && { ...prev, hover: { x: p.x, y: p.y } });
+            }
+            return;
+        }
+
+        const stroke = strokeRef.current;
+        if (!stroke || stroke.pointerId !== e.pointerId) {
+            updateCursor(e, brushSize / 2);
+            return;
+        }
+
+        // Coalesced events carry the positions (and pressures) between two frames
+        const coalesced = e.nativeEvent.getCoalescedEvents?.() ?? [];
+        for (const event of coalesced.length > 0 ? coalesced : [e.nativeEvent]) {
+            const point = toStrokePoint(event);
+            paintSegment(stroke.last, point);
+            stroke.last = point;
+        }
+        updateCursor(e, stroke.last.radius);
+        scheduleDraw();
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const drag = lassoDragRef.current;
+        if (drag && drag.pointerId === e.pointerId) {
+            lassoDragRef.current = null;
+            if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+            // A freehand outline closes on release; a click keeps collecting polygon points
+            if (drag.freehand && lasso) fillLasso(lasso.points);
+            return;
+        }
+        if (strokeRef.current?.pointerId !== e.pointerId) return;
+        // Flush the last coalesced moves before the stroke is closed
+        applyStroke();
+        draw();
+        strokeRef.current = null;
+        strokeBaseRef.current = null;
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    };
+
+    // Capture lost mid-stroke (a second finger started a pinch): take the stroke back
+    const handleLostCapture = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (lassoDragRef.current?.pointerId === e.pointerId) {
+            lassoDragRef.current = null;
+            setLasso(null);
+            return;
+        }
+        if (strokeRef.current?.pointerId !== e.pointerId) return;
+        strokeRef.current = null;
+        strokeBaseRef.current = null;
+        const snapshot = undoStackRef.current.pop();
+        if (snapshot) maskCanvasRef.current?.getContext('2d')?.putImageData(snapshot, 0, 0);
+        syncHistoryCounts();
+        draw();
+    };
+
+    // Stroke-level history: a mask snapshot is taken before each stroke
+    const MAX_HISTORY = 50;
+    const undoStackRef = useRef<ImageData[]>([]);
+    const redoStackRef = useRef<ImageData[]>([]);
+    const [historyCounts, setHistoryCounts] = useState({ undo: 0, redo: 0 });
+
+    const snapshotMask = () => {
+        const mCanvas = maskCanvasRef.current;
+        const mCtx = mCanvas?.getContext('2d');
+        if (!mCanvas || !mCtx) return null;
+        return mCtx.getImageData(0, 0, mCanvas.width, mCanvas.height);
+    };
+
+    const syncHistoryCounts = () => {
+        setHistoryCounts({ undo: undoStackRef.current.length, redo: redoStackRef.current.length });
+    };
+
+    const beginStroke = () => {
+        const snapshot = snapshotMask();
+        if (snapshot) {
+            undoStackRef.current = [...undoStackRef.current, snapshot].slice(-MAX_HISTORY);
+            redoStackRef.current = [];
+            syncHistoryCounts();
+        }
+    };
+
+    const restoreMask = (from: React.RefObject<ImageData[]>, to: React.RefObject<ImageData[]>) => {
+        const previous = from.current.pop();
+        const current = snapshotMask();
+        if (!previous || !current) return;
+
+        to.current.push(current);
+        maskCanvasRef.current?.getContext('2d')?.putImageData(previous, 0, 0);
+        syncHistoryCounts();
+        draw();
+    };
+
+    // With a refine preview up, undo first drops the preview
+    const undoStroke = () => (refining ? setRefine(NO_REFINE) : restoreMask(undoStackRef, redoStackRef));
+    const redoStroke = () => (refining ? setRefine(NO_REFINE) : restoreMask(redoStackRef, undoStackRef));
+
+    // Grows or shrinks the frame around the original box. The mask and every undo
+    // step move into the new frame; anything outside a shrunk frame is cut off.
+    const changeMargin = (nextMargin: number) => {
+        const img = sourceImageRef.current;
+        const canvas = canvasRef.current;
+        const mCanvas = maskCanvasRef.current;
+        if (!img || !canvas || !mCanvas) return;
+
+        const next = clampBox({
+            x: segment.x - nextMargin,
+            y: segment.y - nextMargin,
+            width: segment.width + nextMargin * 2,
+            height: segment.height + nextMargin * 2,
+        }, { width: img.naturalWidth, height: img.naturalHeight });
+        const dx = frame.x - next.x;
+        const dy = frame.y - next.y;
+
+        const reframed = (content: CanvasImageSource) => {
+            const c = document.createElement('canvas');
+            c.width = next.width;
+            c.height = next.height;
+            c.getContext('2d')?.drawImage(content, dx, dy);
+            return c;
+        };
+        const reframeSnapshot = (snapshot: ImageData) => {
+            const t = document.createElement('canvas');
+            t.width = snapshot.width;
+            t.height = snapshot.height;
+            t.getContext('2d')?.putImageData(snapshot, 0, 0);
+            return reframed(t).getContext('2d')!.getImageData(0, 0, next.width, next.height);
+        };
+
+        maskCanvasRef.current = reframed(mCanvas);
+        undoStackRef.current = undoStackRef.current.map(reframeSnapshot);
+        redoStackRef.current = redoStackRef.current.map(reframeSnapshot);
+
+        const sCanvas = document.createElement('canvas');
+        sCanvas.width = next.width;
+        sCanvas.height = next.height;
+        sCanvas.getContext('2d')?.drawImage(img, next.x, next.y, next.width, next.height, 0, 0, next.width, next.height);
+        sourceCanvasRef.current = sCanvas;
+
+        canvas.width = next.width;
+        canvas.height = next.height;
+        // A result for the old frame would no longer line up
+        promptRunRef.current++;
+        setPromptBusy(false);
+        setRefine(NO_REFINE);
+        setMargin(nextMargin);
+        setFrame(next);
+        zoomPan.fit();
+        draw();
+    };
+
+    // Enter closes a polygon lasso, Escape drops it
+    const finishLasso = (close: boolean) => {
+        if (!lasso) return false;
+        if (close) fillLasso(lasso.points);
+        else setLasso(null);
+        return true;
+    };
+
+    // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) while the modal is open
+    const undoStrokeRef = useRef(undoStroke);
+    const redoStrokeRef = useRef(redoStroke);
+    const finishLassoRef = useRef(finishLasso);
+    useEffect(() => {
+        undoStrokeRef.current = undoStroke;
+        redoStrokeRef.current = redoStroke;
+        finishLassoRef.current = finishLasso;
+    });
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if ((e.key === 'Enter' || e.key === 'Escape') && finishLassoRef.current(e.key === 'Enter')) {
+                e.preventDefault();
+                return;
+            }
+            if (!(e.ctrlKey || e.metaKey)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undoStrokeRef.current();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                redoStrokeRef.current();
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, []);
+
+    const drawRef = useRef(draw);
+    useEffect(() => {
+        drawRef.current = draw;
+    });
+
+    // Refine preview: recomputed from the mask whenever a slider moves
+    useEffect(() => {
+        const mCanvas = maskCanvasRef.current;
+        const mCtx = mCanvas?.getContext('2d');
+        if (!mCanvas || !mCtx || !isRefining(refine)) {
+            previewMaskRef.current = null;
+            drawRef.current();
+            return;
+        }
+
+        // Let quick slider drags settle before running the filters
+        const timer = setTimeout(() => {
+            const { width, height } = mCanvas;
+            const alpha = alphaFromImageData(mCtx.getImageData(0, 0, width, height));
+            const preview = previewMaskRef.current ?? document.createElement('canvas');
+            preview.width = width;
+            preview.height = height;
+            preview.getContext('2d')?.putImageData(alphaToImageData(refineAlpha(alpha, width, height, refine), width, height), 0, 0);
+            previewMaskRef.current = preview;
+            drawRef.current();
+        }, 80);
+        return () => clearTimeout(timer);
+    }, [refine]);
+
+    const applyRefine = () => {
+        const preview = previewMaskRef.current;
+        const previewCtx = preview?.getContext('2d');
+        if (!preview || !previewCtx) return;
+        beginStroke();
+        maskCanvasRef.current?.getContext('2d')?.putImageData(previewCtx.getImageData(0, 0, preview.width, preview.height), 0, 0);
+        setRefine(NO_REFINE);
+    };
+
+    // The stamp is cropped to the pixels the mask keeps, which may now reach past the old box
     const handleSave = async () => {
         const sCanvas = sourceCanvasRef.current;
-        const mCanvas = maskCanvasRef.current;
-        if (!sCanvas || !mCanvas) return;
+        // A pending refinement is saved as previewed
+        const mCanvas = previewMaskRef.current ?? maskCanvasRef.current;
+        const mCtx = mCanvas?.getContext('2d');
+        if (!sCanvas || !mCanvas || !mCtx) return;
 
         const width = sCanvas.width;
         const height = sCanvas.height;
+        const bounds = alphaBounds(alphaFromImageData(mCtx.getImageData(0, 0, width, height)), width, height);
+        if (!bounds) {
+            alert("The mask is empty. Restore part of the stamp, or delete it from the results instead.");
+            return;
+        }
 
         const tCanvas = document.createElement('canvas');
-        tCanvas.width = width;
-        tCanvas.height = height;
+        tCanvas.width = bounds.width;
+        tCanvas.height = bounds.height;
         const tCtx = tCanvas.getContext('2d');
         if (tCtx) {
-            tCtx.drawImage(sCanvas, 0, 0);
+            tCtx.drawImage(sCanvas, -bounds.x, -bounds.y);
             tCtx.globalCompositeOperation = 'destination-in';
-            tCtx.drawImage(mCanvas, 0, 0);
+            tCtx.drawImage(mCanvas, -bounds.x, -bounds.y);
 
             tCanvas.toBlob((blob) => {
                 if (blob) {
-                    onSave(URL.createObjectURL(blob));
+                    onSave({
+                        url: URL.createObjectURL(blob),
+                        x: frame.x + bounds.x,
+                        y: frame.y + bounds.y,
+                        width: bounds.width,
+                        height: bounds.height,
+                    });
                 }
             }, 'image/png');
         }
@@ -270,7 +703,7 @@ export const StampEditorModal = ({ segment, sourceImage, onSave, onClose }: Stam
 
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
-            <div className="bg-neo-white border-4 border-black shadow-neo-lg flex flex-col max-h-full max-w-full">
+            <div className="bg-neo-white border-4 border-black shadow-neo-lg flex flex-col w-full h-full max-w-5xl max-h-[48rem]">
                 {/* Header */}
                 <div className="flex items-center justify-between p-2 border-b-2 border-black bg-neo-yellow">
                     <h3 className="font-bold italic">MANUAL EDIT</h3>
@@ -288,42 +721,264 @@ export const StampEditorModal = ({ segment, sourceImage, onSave, onClose }: Stam
                 <div className="flex items-center gap-4 p-2 border-b-2 border-black bg-white">
                     <div className="flex gap-1">
                         <button
-                            onClick={() => setTool('erase')}
+                            onClick={() => selectTool('erase')}
                             className={`px-3 py-1 border-2 border-black text-xs font-bold ${tool === 'erase' ? 'bg-neo-black text-white' : 'bg-white'}`}
                         >
                             ERASER
                         </button>
                         <button
-                            onClick={() => setTool('restore')}
+                            onClick={() => selectTool('restore')}
                             className={`px-3 py-1 border-2 border-black text-xs font-bold ${tool === 'restore' ? 'bg-neo-black text-white' : 'bg-white'}`}
                         >
                             RESTORE
                         </button>
+                        <button
+                            onClick={() => selectTool('wand')}
+                            title="Magic wand: click a color region"
+                            className={`px-2 py-1 border-2 border-black text-xs font-bold ${tool === 'wand' ? 'bg-neo-black text-white' : 'bg-white'}`}
+                        >
+                            <Wand2 size={14} />
+                        </button>
+                        <button
+                            onClick={() => selectTool('color')}
+                            title="Erase a color range: click a color to remove it everywhere"
+                            className={`px-2 py-1 border-2 border-black text-xs font-bold ${tool === 'color' ? 'bg-neo-black text-white' : 'bg-white'}`}
+                        >
+                            <Pipette size={14} />
+                        </button>
+                        <button
+                            onClick={() => selectTool('lasso')}
+                            title="Lasso: drag an outline, or click points and double-click / Enter to close"
+                            className={`px-2 py-1 border-2 border-black text-xs font-bold ${tool === 'lasso' ? 'bg-neo-black text-white' : 'bg-white'}`}
+                        >
+                            <Lasso size={14} />
+                        </button>
+                        <button
+                            onClick={() => selectTool('prompt')}
+                            title="Click to refine: click the stamp, shift- or right-click what to leave out"
+                            className={`px-2 py-1 border-2 border-black text-xs font-bold ${tool === 'prompt' ? 'bg-neo-black text-white' : 'bg-white'}`}
+                        >
+                            <MousePointerClick size={14} />
+                        </button>
+                        <button
+                            onClick={() => selectTool('pan')}
+                            title="Pan (or hold Space / drag with the middle button)"
+                            className={`px-2 py-1 border-2 border-black text-xs font-bold ${tool === 'pan' ? 'bg-neo-black text-white' : 'bg-white'}`}
+                        >
+                            <Hand size={14} />
+                        </button>
                     </div>
 
-                    <div className="flex items-center gap-2">
-                        <span className="text-xs font-bold">SIZE:</span>
-                        <input
-                            type="range"
-                            min="5"
-                            max="100"
-                            value={brushSize}
-                            onChange={(e) => setBrushSize(Number(e.target.value))}
-                            className="w-32 accent-neo-black"
-                        />
+                    <div className="flex gap-1">
+                        <button
+                            onClick={undoStroke}
+                            disabled={historyCounts.undo === 0}
+                            title="Undo stroke (Ctrl+Z)"
+                            className="px-2 py-1 border-2 border-black text-xs font-bold bg-white flex items-center gap-1 disabled:opacity-40"
+                        >
+                            <Undo2 size={14} /> {historyCounts.undo}
+                        </button>
+                        <button
+                            onClick={redoStroke}
+                            disabled={historyCounts.redo === 0}
+                            title="Redo stroke (Ctrl+Shift+Z)"
+                            className="px-2 py-1 border-2 border-black text-xs font-bold bg-white flex items-center gap-1 disabled:opacity-40"
+                        >
+                            <Redo2 size={14} /> {historyCounts.redo}
+                        </button>
+                    </div>
+
+                    {(tool === 'wand' || tool === 'lasso') && (
+                        <div className="flex gap-1 text-xs font-bold">
+                            <button onClick={() => setSelectionMode('remove')} className={`px-2 py-1 border-2 border-black ${selectionMode === 'remove' ? 'bg-neo-pink text-white' : 'bg-white'}`}>REMOVE</button>
+                            <button onClick={() => setSelectionMode('keep')} className={`px-2 py-1 border-2 border-black ${selectionMode === 'keep' ? 'bg-neo-green' : 'bg-white'}`}>KEEP</button>
+                        </div>
+                    )}
+
+                    {tool === 'prompt' && (
+                        <div className="flex items-center gap-2 text-xs font-bold">
+                            <span className="opacity-60">{promptBusy ? 'SEGMENTING...' : `${promptPoints.length} POINTS`}</span>
+                            <button onClick={() => selectTool('prompt')} disabled={promptPoints.length === 0} className="px-2 py-1 border-2 border-black bg-white disabled:opacity-40">
+                                CLEAR POINTS
+                            </button>
+                        </div>
+                    )}
+
+                    {(tool === 'wand' || tool === 'color') && (
+                        <div className="flex items-center gap-2 text-xs font-bold">
+                            <span>TOLERANCE:</span>
+                            <input
+                                type="range"
+                                min="0"
+                                max="100"
+                                value={tolerance}
+                                onChange={(e) => setTolerance(Number(e.target.value))}
+                                className="w-24 accent-neo-black"
+                            />
+                            <span className="w-6">{tolerance}</span>
+                            {tool === 'wand' && (
+                                <label className="flex items-center gap-1">
+                                    <input type="checkbox" checked={contiguous} onChange={(e) => setContiguous(e.target.checked)} className="accent-neo-black" />
+                                    CONTIGUOUS
+                                </label>
+                            )}
+                        </div>
+                    )}
+
+                    {isBrush && (
+                        <>
+                        <div className="flex items-center gap-2">
+                            <span className="text-xs font-bold">SIZE:</span>
+                            <input
+                                type="range"
+                                min="5"
+                                max="100"
+                                value={brushSize}
+                                onChange={(e) => setBrushSize(Number(e.target.value))}
+                                className="w-32 accent-neo-black"
+                            />
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                            <span className="text-xs font-bold">HARDNESS:</span>
+                            <input
+                                type="range"
+                                min="0"
+                                max="100"
+                                value={hardness}
+                                onChange={(e) => setHardness(Number(e.target.value))}
+                                className="w-20 accent-neo-black"
+                            />
+                            <span className="text-xs font-bold">OPACITY:</span>
+                            <input
+                                type="range"
+                                min="5"
+                                max="100"
+                                value={opacity}
+                                onChange={(e) => setOpacity(Number(e.target.value))}
+                                className="w-20 accent-neo-black"
+                            />
+                        </div>
+                        </>
+                    )}
+
+                    <div className="flex items-center gap-1 text-xs font-bold" title="Extra room around the stamp's box, to restore parts the segmentation cut off">
+                        <span>MARGIN:</span>
+                        <button onClick={() => changeMargin(Math.max(0, margin - MARGIN_STEP))} disabled={margin === 0} className="px-2 py-1 border-2 border-black bg-white disabled:opacity-40">−</button>
+                        <span className="w-12 text-center">{margin}px</span>
+                        <button onClick={() => changeMargin(Math.min(MAX_MARGIN, margin + MARGIN_STEP))} disabled={margin >= MAX_MARGIN} className="px-2 py-1 border-2 border-black bg-white disabled:opacity-40">+</button>
                     </div>
+
+                    <div className="flex items-center gap-1 text-xs font-bold ml-auto">
+                        <button onClick={() => zoomPan.zoomBy(1 / 1.25)} title="Zoom out" className="p-1 border-2 border-black bg-white">
+                            <ZoomOut size={14} />
+                        </button>
+                        <span className="w-12 text-center">{Math.round(view.zoom * 100)}%</span>
+                        <button onClick={() => zoomPan.zoomBy(1.25)} title="Zoom in" className="p-1 border-2 border-black bg-white">
+                            <ZoomIn size={14} />
+                        </button>
+                        <button onClick={zoomPan.fit} className={`px-2 py-1 border-2 border-black ${zoomPan.isFit ? 'bg-neo-black text-white' : 'bg-white'}`}>FIT</button>
+                        <button onClick={zoomPan.actualSize} className={`px-2 py-1 border-2 border-black ${view.zoom === 1 ? 'bg-neo-black text-white' : 'bg-white'}`}>100%</button>
+                    </div>
+                </div>
+
+                {/* Refine: whole-mask cleanup, previewed until applied */}
+                <div className={`flex flex-wrap items-center gap-x-4 gap-y-1 p-2 border-b-2 border-black text-xs font-bold ${refining ? 'bg-neo-yellow' : 'bg-white'}`}>
+                    <span>REFINE:</span>
+                    {REFINE_SLIDERS.map(({ key, label, min, max, unit }) => (
+                        <label key={key} className="flex items-center gap-1">
+                            {label}
+                            <input
+                                type="range"
+                                min={min}
+                                max={max}
+                                value={refine[key]}
+                                onChange={(e) => setRefine(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                                className="w-20 accent-neo-black"
+                            />
+                            <span className="w-12">{refine[key]}{unit}</span>
+                        </label>
+                    ))}
+                    {refining && (
+                        <div className="flex gap-1 ml-auto">
+                            <span className="my-auto opacity-70">PREVIEW · PAINTING PAUSED</span>
+                            <button onClick={applyRefine} className="px-2 py-1 border-2 border-black bg-neo-green">APPLY</button>
+                            <button onClick={() => setRefine(NO_REFINE)} className="px-2 py-1 border-2 border-black bg-white">RESET</button>
+                        </div>
+                    )}
                 </div>
 
-                {/* Canvas Area */}
-                <div className="flex-1 overflow-auto bg-[conic-gradient(at_top_left,#ccc_25%,transparent_25%_50%,#ccc_50%_75%,transparent_75%)] [background-size:20px_20px] p-8 flex items-center justify-center">
+                {/* Canvas Area: wheel / pinch to zoom, Space or middle-drag to pan */}
+                <div
+                    ref={viewportRef}
+                    className={`relative flex-1 min-h-0 overflow-hidden touch-none bg-[conic-gradient(at_top_left,#ccc_25%,transparent_25%_50%,#ccc_50%_75%,transparent_75%)] [background-size:20px_20px] ${zoomPan.isPanning ? 'cursor-grabbing' : tool === 'pan' ? 'cursor-grab' : ''}`}
+                >
                     <canvas
                         ref={canvasRef}
-                        onMouseDown={() => setIsDrawing(true)}
-                        onMouseUp={() => setIsDrawing(false)}
-                        onMouseLeave={() => setIsDrawing(false)}
-                        onMouseMove={handleMouseMove}
-                        className="border-2 border-neo-blue shadow-lg cursor-crosshair bg-transparent"
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={handlePointerUp}
+                        onLostPointerCapture={handleLostCapture}
+                        onDoubleClick={() => finishLasso(true)}
+                        onContextMenu={(e) => {
+                            if (tool === 'prompt') e.preventDefault();
+                        }}
+                        onPointerLeave={() => setCursor(null)}
+                        className={`absolute outline outline-2 outline-black shadow-lg bg-transparent touch-none ${isBrush ? 'cursor-none' : tool === 'pan' ? '' : 'cursor-crosshair'}`}
+                        style={{
+                            left: view.x,
+                            top: view.y,
+                            width: frame.width * view.zoom,
+                            height: frame.height * view.zoom,
+                            imageRendering: view.zoom > 2 ? 'pixelated' : 'auto',
+                        }}
                     />
+                    {/* The box the stamp was cut from, for reference while the margin is open */}
+                    {margin > 0 && (
+                        <div
+                            className="absolute pointer-events-none border-2 border-dashed border-neo-pink"
+                            style={{
+                                left: view.x + (segment.x - frame.x) * view.zoom,
+                                top: view.y + (segment.y - frame.y) * view.zoom,
+                                width: segment.width * view.zoom,
+                                height: segment.height * view.zoom,
+                            }}
+                        />
+                    )}
+                    {lasso && (
+                        <svg className="absolute inset-0 w-full h-full pointer-events-none">
+                            <polyline
+                                points={[...lasso.points, ...(lasso.hover ? [lasso.hover] : [])]
+                                    .map(p => `${view.x + p.x * view.zoom},${view.y + p.y * view.zoom}`)
+                                    .join(' ')}
+                                fill={selectionMode === 'keep' ? 'rgba(0,255,0,0.15)' : 'rgba(255,0,255,0.15)'}
+                                stroke="black"
+                                strokeWidth={2}
+                                strokeDasharray="6 4"
+                            />
+                        </svg>
+                    )}
+                    {tool === 'prompt' && promptPoints.map((p, i) => (
+                        <div
+                            key={i}
+                            className={`absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-black text-[10px] leading-none font-black flex items-center justify-center pointer-events-none ${p.label === 1 ? 'bg-neo-green' : 'bg-neo-pink text-white'}`}
+                            style={{ left: view.x + (p.x - frame.x) * view.zoom, top: view.y + (p.y - frame.y) * view.zoom }}
+                        >
+                            {p.label === 1 ? '+' : '−'}
+                        </div>
+                    ))}
+                    {cursor && (
+                        <div
+                            className={`absolute pointer-events-none rounded-full border-2 ${tool === 'erase' ? 'border-neo-pink' : 'border-neo-green'} shadow-[0_0_0_1px_#000]`}
+                            style={{
+                                left: cursor.x - cursor.radius,
+                                top: cursor.y - cursor.radius,
+                                width: cursor.radius * 2,
+                                height: cursor.radius * 2,
+                            }}
+                        />
+                    )}
                 </div>
             </div>
         </div>
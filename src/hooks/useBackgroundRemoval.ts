@@ -1,22 +1,61 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { checkModelAvailability, type ModelConfig, type ModelSource } from '../utils/modelSource';
+import { DEFAULT_MODEL_ID, getModel } from '../utils/modelRegistry';
+import type { BgRemoveRequest, BgRemoveResponse, BgRemoveStatus } from '../workers/bg-remove.worker';
 
 type ProcessStatus = 'idle' | 'loading' | 'downloading' | 'processing' | 'complete' | 'error';
 
-export function useBackgroundRemoval() {
+export interface ProcessOptions {
+    signal?: AbortSignal; // aborts the job whether it is still queued or already running
+    onStatus?: (status: BgRemoveStatus) => void; // status updates for this job only
+}
+
+interface PendingJob {
+    worker: Worker;
+    onStatus?: (status: BgRemoveStatus) => void;
+    resolve: (bitmap: ImageBitmap) => void;
+    reject: (error: unknown) => void;
+    cleanup: () => void;
+}
+
+const abortError = () => new DOMException('Background removal was aborted', 'AbortError');
+
+/**
+ * Background removal on a pool of `poolSize` workers. Each worker loads its
+ * own copy of the model, so a pool trades memory for batch throughput.
+ */
+export function useBackgroundRemoval(poolSize = 1) {
     const [status, setStatus] = useState<ProcessStatus>('idle');
     const [progress, setProgress] = useState<number>(0);
-    const workerRef = useRef<Worker | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [modelSource, setModelSourceState] = useState<ModelSource>('auto');
+    const [modelFiles, setModelFiles] = useState<Map<string, File> | null>(null); // the picked folder, for 'folder'
+    const [modelId, setModelIdState] = useState(DEFAULT_MODEL_ID);
+    const poolRef = useRef<Worker[]>([]);
+    const pendingRef = useRef(new Map<number, PendingJob>());
+    const nextIdRef = useRef(1);
+
+    // The pool is (re)configured lazily before the first job after a source or model change.
+    // Models already checked against the current source are not probed again; a batch queues
+    // its jobs at once, so they all wait on the one check in flight for their model.
+    const sourceRef = useRef<{ source: ModelSource; files: Map<string, File> | null }>({ source: 'auto', files: null });
+    const modelIdRef = useRef(DEFAULT_MODEL_ID);
+    const checkedRef = useRef(new Map<string, Promise<void>>());
+    // Last config sent: workers drop their loaded models when the source moves, so only send real changes
+    const activeConfigRef = useRef<ModelConfig | null>(null);
 
     useEffect(() => {
-        // Initialize worker
-        const worker = new Worker(new URL('../workers/bg-remove.worker.ts', import.meta.url), {
-            type: 'module',
-        });
+        const pending = pendingRef.current;
+        const checked = checkedRef.current;
 
-        worker.onmessage = (event) => {
-            const { type, data } = event.data;
+        const handleMessage = (event: MessageEvent<BgRemoveResponse>) => {
+            const message = event.data;
+            const job = pending.get(message.id);
+            if (!job) return;
 
-            if (type === 'status') {
+            if (message.type === 'status') {
+                const { data } = message;
+                job.onStatus?.(data);
                 if (data.status === 'downloading') {
                     setStatus('downloading');
                     // Estimate total progress if possible, or just pass on file progress
@@ -25,52 +64,132 @@ export function useBackgroundRemoval() {
                     setStatus('processing');
                     setProgress(100);
                 }
-            } else if (type === 'complete') {
-                setStatus('complete');
-            } else if (type === 'error') {
+                return;
+            }
+
+            pending.delete(message.id);
+            job.cleanup();
+
+            if (message.type === 'complete') {
+                if (pending.size === 0) setStatus('complete');
+                job.resolve(message.data.bitmap);
+            } else if (message.type === 'aborted') {
+                if (pending.size === 0) setStatus('idle');
+                job.reject(abortError());
+            } else {
                 setStatus('error');
-                console.error("Worker Error:", data);
+                setError(message.data.message);
+                console.error("Worker Error:", message.data.message);
+                job.reject(new Error(message.data.message));
             }
         };
 
-        workerRef.current = worker;
+        const pool = Array.from({ length: Math.max(1, poolSize) }, () => {
+            const worker = new Worker(new URL('../workers/bg-remove.worker.ts', import.meta.url), {
+                type: 'module',
+            });
+            worker.onmessage = handleMessage;
+            return worker;
+        });
+        poolRef.current = pool;
 
         return () => {
-            worker.terminate();
+            pool.forEach(worker => worker.terminate());
+            pending.forEach(job => {
+                job.cleanup();
+                job.reject(abortError());
+            });
+            pending.clear();
+            checked.clear();
+            activeConfigRef.current = null;
         };
+    }, [poolSize]);
+
+    const setModelSource = useCallback((source: ModelSource, files: Map<string, File> | null = null) => {
+        sourceRef.current = { source, files };
+        checkedRef.current.clear();
+        setModelSourceState(source);
+        setModelFiles(files);
+        setError(null);
     }, []);
 
-    const processImage = useCallback((imageUrl: string): Promise<ImageBitmap> => {
-        return new Promise((resolve, reject) => {
-            if (!workerRef.current) return reject('Worker not initialized');
-
-            const handleMessage = (event: MessageEvent) => {
-                const { type, data } = event.data;
-                if (type === 'complete') {
-                    workerRef.current?.removeEventListener('message', handleMessage);
-                    resolve(data.bitmap);
-                } else if (type === 'error') {
-                    workerRef.current?.removeEventListener('message', handleMessage);
-                    reject(data);
-                }
-            };
+    const setModelId = useCallback((id: string) => {
+        const model = getModel(id);
+        modelIdRef.current = model.id;
+        setModelIdState(model.id);
+        setError(null);
+    }, []);
 
-            const rawWorker = workerRef.current as Worker;
+    const ensureConfigured = useCallback((modelId: string) => {
+        const checked = checkedRef.current;
+        const inFlight = checked.get(modelId);
+        if (inFlight) return inFlight;
 
-            const onMessage = (e: MessageEvent) => {
-                if (e.data.type === 'complete') {
-                    rawWorker.removeEventListener('message', onMessage);
-                    resolve(e.data.data.bitmap);
-                } else if (e.data.type === 'error') {
-                    rawWorker.removeEventListener('message', onMessage);
-                    reject(e.data.data);
-                }
-            };
+        const check = (async () => {
+            setStatus('loading');
+            const { source, files } = sourceRef.current;
+            const result = await checkModelAvailability(getModel(modelId), source, files);
+            if (!result.ok || !result.config) {
+                const message = result.message ?? 'The AI model is not available.';
+                setStatus('error');
+                setError(message);
+                throw new Error(message);
+            }
 
-            rawWorker.addEventListener('message', onMessage);
-            rawWorker.postMessage({ type: 'process', data: { imageUrl } });
+            const active = activeConfigRef.current;
+            const changed = !active
+                || active.source !== result.config.source
+                || active.localModelPath !== result.config.localModelPath
+                || active.files !== result.config.files
+                || active.wasmPaths !== result.config.wasmPaths;
+            if (changed) {
+                const message: BgRemoveRequest = { type: 'configure', data: result.config };
+                poolRef.current.forEach(worker => worker.postMessage(message));
+                activeConfigRef.current = result.config;
+            }
+        })();
+        checked.set(modelId, check);
+        // Don't cache failures: the next job checks again
+        check.catch(() => {
+            if (checked.get(modelId) === check) checked.delete(modelId);
         });
+        return check;
+    }, []);
+
+    // Least busy worker; ties go to the first so a single job always lands on worker 0
+    const pickWorker = useCallback(() => {
+        const load = new Map(poolRef.current.map(worker => [worker, 0]));
+        pendingRef.current.forEach(job => load.set(job.worker, (load.get(job.worker) ?? 0) + 1));
+        return poolRef.current.reduce((best, worker) => (load.get(worker)! < load.get(best)! ? worker : best));
     }, []);
 
-    return { processImage, status, progress };
+    const processImage = useCallback(async (imageUrl: string, { signal, onStatus }: ProcessOptions = {}): Promise<ImageBitmap> => {
+        if (poolRef.current.length === 0) throw new Error('Worker not initialized');
+        if (signal?.aborted) throw abortError();
+
+        const modelId = modelIdRef.current;
+        await ensureConfigured(modelId);
+        if (signal?.aborted) throw abortError();
+        setError(null);
+
+        return new Promise((resolve, reject) => {
+            const id = nextIdRef.current++;
+            const worker = pickWorker();
+
+            // The worker answers 'aborted' once the job is dropped; the promise settles then
+            const onAbort = () => worker.postMessage({ type: 'abort', id } satisfies BgRemoveRequest);
+            signal?.addEventListener('abort', onAbort);
+
+            pendingRef.current.set(id, {
+                worker,
+                onStatus,
+                resolve,
+                reject,
+                cleanup: () => signal?.removeEventListener('abort', onAbort),
+            });
+            worker.postMessage({ type: 'process', id, data: { imageUrl, modelId } } satisfies BgRemoveRequest);
+        });
+    }, [ensureConfigured, pickWorker]);
+
+    return { processImage, status, progress, error, modelSource, modelFiles, setModelSource, modelId, setModelId };
 }
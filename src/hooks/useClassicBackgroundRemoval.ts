@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ClassicRequest, ClassicResponse } from '../workers/classic-bg.worker';
+
+// Non-ML alternatives to the AI model, for stamps scanned or photographed on plain paper:
+// 'color':     distance from the sampled paper color
+// 'threshold': adaptive threshold against the local paper brightness, outlines filled
+// 'grabcut':   OpenCV GrabCut seeded with paper-colored pixels as probable background
+// 'flood':     flood fill from the image border through paper-like pixels
+export type ClassicMethod = 'color' | 'threshold' | 'grabcut' | 'flood';
+export type BackgroundMethod = 'ai' | ClassicMethod;
+
+export interface ClassicRemovalOptions {
+    method: ClassicMethod;
+    tolerance: number; // 0-100; how different from the paper a pixel must be to count as foreground
+    feather: number; // px of edge blur applied to the final mask
+}
+
+export const DEFAULT_CLASSIC_OPTIONS: Omit<ClassicRemovalOptions, 'method'> = {
+    tolerance: 30,
+    feather: 1,
+};
+
+interface PendingRequest {
+    resolve: (bitmap: ImageBitmap) => void;
+    reject: (error: Error) => void;
+}
+
+export function useClassicBackgroundRemoval() {
+    const [isProcessing, setIsProcessing] = useState(false);
+    const workerRef = useRef<Worker | null>(null);
+    const pendingRef = useRef(new Map<number, PendingRequest>());
+    const nextIdRef = useRef(1);
+
+    // OpenCV.js is ~10 MB of JS + wasm, so the worker is only started on first use
+    const getWorker = useCallback(() => {
+        if (workerRef.current) return workerRef.current;
+
+        const worker = new Worker(new URL('../workers/classic-bg.worker.ts', import.meta.url), {
+            type: 'module',
+        });
+        const pending = pendingRef.current;
+
+        worker.onmessage = (event: MessageEvent<ClassicResponse>) => {
+            const message = event.data;
+            const request = pending.get(message.id);
+            if (!request) {
+                // Aborted while running: nobody wants the result
+                if (message.type === 'complete') message.data.bitmap.close();
+                return;
+            }
+
+            pending.delete(message.id);
+            if (pending.size === 0) setIsProcessing(false);
+
+            if (message.type === 'complete') {
+                request.resolve(message.data.bitmap);
+            } else if (message.type === 'aborted') {
+                request.reject(new DOMException('Background removal was aborted', 'AbortError'));
+            } else if (message.type === 'error') {
+                console.error("Classic background removal error:", message.data.message);
+                request.reject(new Error(message.data.message));
+            }
+        };
+
+        workerRef.current = worker;
+        return worker;
+    }, []);
+
+    useEffect(() => {
+        const pending = pendingRef.current;
+        return () => {
+            workerRef.current?.terminate();
+            workerRef.current = null;
+            pending.forEach(request => request.reject(new Error('Background removal was stopped')));
+            pending.clear();
+        };
+    }, []);
+
+    // Same contract as useBackgroundRemoval().processImage: a transparent bitmap of the full image.
+    // Aborting drops a queued job; OpenCV calls can't be interrupted, so a running one finishes
+    // and its result is dropped. The promise settles when the worker answers 'aborted'.
+    const removeBackground = useCallback((imageUrl: string, options: ClassicRemovalOptions, signal?: AbortSignal): Promise<ImageBitmap> => {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) return reject(new DOMException('Background removal was aborted', 'AbortError'));
+
+            const worker = getWorker();
+            const id = nextIdRef.current++;
+            const pending = pendingRef.current;
+            const onAbort = () => worker.postMessage({ type: 'abort', id } satisfies ClassicRequest);
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            pending.set(id, {
+                resolve: (bitmap) => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(bitmap);
+                },
+                reject: (error) => {
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(error);
+                },
+            });
+            setIsProcessing(true);
+            worker.postMessage({ type: 'remove', id, data: { imageUrl, options } } satisfies ClassicRequest);
+        });
+    }, [getWorker]);
+
+    return { removeBackground, isProcessing };
+}
@@ -0,0 +1,99 @@
+import { useCallback, useMemo, useState } from 'react';
+
+export interface HistoryEntry<T> {
+    label: string; // what the command did, e.g. "Remove stamp"
+    state: T;
+}
+
+interface HistoryState<T> {
+    past: HistoryEntry<T>[];
+    present: HistoryEntry<T>;
+    future: HistoryEntry<T>[];
+}
+
+type Updater<T> = T | ((prev: T) => T);
+
+/**
+ * Snapshot-based undo/redo for immutable state. Each commit records the
+ * resulting state together with a label so the UI can say what will be undone.
+ */
+export function useHistory<T>(initial: T, limit = 100) {
+    const [history, setHistory] = useState<HistoryState<T>>({
+        past: [],
+        present: { label: 'Initial', state: initial },
+        future: [],
+    });
+
+    const commit = useCallback((label: string, updater: Updater<T>) => {
+        setHistory(h => {
+            const next = typeof updater === 'function'
+                ? (updater as (prev: T) => T)(h.present.state)
+                : updater;
+            if (next === h.present.state) return h;
+
+            return {
+                past: [...h.past, h.present].slice(-limit),
+                present: { label, state: next },
+                future: [],
+            };
+        });
+    }, [limit]);
+
+    const undo = useCallback(() => {
+        setHistory(h => {
+            if (h.past.length === 0) return h;
+            return {
+                past: h.past.slice(0, -1),
+                present: h.past[h.past.length - 1],
+                future: [h.present, ...h.future],
+            };
+        });
+    }, []);
+
+    const redo = useCallback(() => {
+        setHistory(h => {
+            if (h.future.length === 0) return h;
+            return {
+                past: [...h.past, h.present],
+                present: h.future[0],
+                future: h.future.slice(1),
+            };
+        });
+    }, []);
+
+    /**
+     * Applies `transform` to every snapshot, past and future included, without
+     * recording a step. For removals that must not come back through undo,
+     * e.g. stamps whose source image is gone.
+     */
+    const rewrite = useCallback((transform: (state: T) => T) => {
+        setHistory(h => {
+            const apply = (entry: HistoryEntry<T>) => ({ ...entry, state: transform(entry.state) });
+            return {
+                past: h.past.map(apply),
+                present: apply(h.present),
+                future: h.future.map(apply),
+            };
+        });
+    }, []);
+
+    // Every state undo/redo can still reach, oldest first
+    const snapshots = useMemo(
+        () => [...history.past, history.present, ...history.future].map(entry => entry.state),
+        [history],
+    );
+
+    return {
+        state: history.present.state,
+        snapshots,
+        commit,
+        rewrite,
+        undo,
+        redo,
+        undoCount: history.past.length,
+        redoCount: history.future.length,
+        // Label of the command undo would revert / redo would re-apply
+        undoLabel: history.past.length > 0 ? history.present.label : null,
+        redoLabel: history.future.length > 0 ? history.future[0].label : null,
+    };
+}
@@ -1,4 +1,5 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SegmentBox, SegmentStage } from '../workers/segment.worker';
 
 export interface SegmentedObject {
     id: string;
@@ -8,203 +9,134 @@ export interface SegmentedObject {
     height: number;
     x: number;
     y: number;
+    // Applied when the stamp is rendered (preview and export); url and the box stay source-aligned
+    rotation?: number; // degrees clockwise
+    flipX?: boolean; // mirrored horizontally after the rotation
 }
 
-export function useObjectSegmenter() {
-    const [isSegmenting, setIsSegmenting] = useState(false);
-
-    const segmentImage = useCallback(async (imageBitmap: ImageBitmap, sourceId: string): Promise<SegmentedObject[]> => {
-        setIsSegmenting(true);
-        try {
-            // 1. Draw to canvas to get pixel data
-            const width = imageBitmap.width;
-            const height = imageBitmap.height;
-            const canvas = new OffscreenCanvas(width, height);
-            const ctx = canvas.getContext('2d', { willReadFrequently: true });
-            if (!ctx) throw new Error('Failed to get context');
-
-            ctx.drawImage(imageBitmap, 0, 0);
-            const imageData = ctx.getImageData(0, 0, width, height);
-            const data = imageData.data;
-
-            // 2. Pre-processing: Create binary map & Apply Dilation
-            const binaryMap = new Uint8Array(width * height);
-            const ALPHA_THRESHOLD = 20;
-
-            for (let i = 0; i < width * height; i++) {
-                if (data[i * 4 + 3] > ALPHA_THRESHOLD) binaryMap[i] = 1;
-            }
+export interface SegmentationOptions {
+    alphaThreshold: number; // alpha above this counts as foreground (0-255)
+    dilationRadius: number; // px; merges nearby fragments into one stamp
+    minBoxArea: number; // components whose box is smaller than this...
+    minPixelCount: number; // ...and that have fewer dilated pixels than this are noise
+    padding: number; // px added around the tight bounds of each stamp
+    evenDimensions: boolean; // grow boxes by 1px where needed so width/height are even
+    autoStraighten: boolean; // rotate tilted rectangular stamps upright (see detectRotation)
+}
 
-            const dilatedMap = new Uint8Array(width * height);
-            const kernelSize = 15;
-
-            // Pass 1: Horizontal Dilation
-            const tempMap = new Uint8Array(width * height);
-            for (let y = 0; y < height; y++) {
-                for (let x = 0; x < width; x++) {
-                    const idx = y * width + x;
-                    if (binaryMap[idx]) {
-                        const start = Math.max(0, x - kernelSize);
-                        const end = Math.min(width - 1, x + kernelSize);
-                        for (let k = start; k <= end; k++) {
-                            tempMap[y * width + k] = 1;
-                        }
-                    }
-                }
-            }
+export const DEFAULT_SEGMENTATION_OPTIONS: SegmentationOptions = {
+    alphaThreshold: 20,
+    dilationRadius: 15,
+    minBoxArea: 900,
+    minPixelCount: 200,
+    padding: 10,
+    evenDimensions: true,
+    autoStraighten: false,
+};
+
+// progress is 0-100 over the whole request; fraction is 0-1 within the running stage
+export type SegmentProgressCallback = (progress: number, stage: SegmentStage, fraction: number) => void;
+
+interface PendingRequest {
+    sourceId: string;
+    onProgress?: SegmentProgressCallback;
+    resolve: (segments: SegmentedObject[]) => void;
+    reject: (error: Error) => void;
+}
 
-            // Pass 2: Vertical Dilation
-            for (let y = 0; y < height; y++) {
-                for (let x = 0; x < width; x++) {
-                    const idx = y * width + x;
-                    if (tempMap[idx]) {
-                        const start = Math.max(0, y - kernelSize);
-                        const end = Math.min(height - 1, y + kernelSize);
-                        for (let k = start; k <= end; k++) {
-                            dilatedMap[k * width + x] = 1;
-                        }
-                    }
-                }
+export function useObjectSegmenter() {
+    const [isSegmenting, setIsSegmenting] = useState(false);
+    const [progress, setProgress] = useState<number>(0);
+    const workerRef = useRef<Worker | null>(null);
+    const pendingRef = useRef(new Map<number, PendingRequest>());
+    const nextIdRef = useRef(1);
+
+    // Labeling a 4000px scan takes seconds, so it runs off the UI thread. A worker that
+    // crashed is dropped and the next request starts a fresh one.
+    const getWorker = useCallback(() => {
+        if (workerRef.current) return workerRef.current;
+
+        const worker = new Worker(new URL('../workers/segment.worker.ts', import.meta.url), {
+            type: 'module',
+        });
+        const pending = pendingRef.current;
+
+        worker.onmessage = (event) => {
+            const { type, id, data } = event.data;
+            const request = pending.get(id);
+            if (!request) return;
+
+            if (type === 'progress') {
+                setProgress(data.progress);
+                request.onProgress?.(data.progress, data.stage, data.fraction);
+                return;
             }
 
-            // 3. Connected Component Labeling
-            const visited = new Uint8Array(width * height);
-            const objects: { minX: number, minY: number, maxX: number, maxY: number, pixels: number[] }[] = [];
-            const getIdx = (x: number, y: number) => (y * width + x);
-
-            for (let y = 0; y < height; y++) {
-                for (let x = 0; x < width; x++) {
-                    const idx = getIdx(x, y);
-
-                    if (visited[idx] || dilatedMap[idx] === 0) continue;
-
-                    // BFS
-                    const queue = [idx];
-                    visited[idx] = 1;
-
-                    let minX = x, maxX = x, minY = y, maxY = y;
-                    const componentPixels: number[] = [];
-
-                    let head = 0;
-                    while (head < queue.length) {
-                        const currIdx = queue[head++];
-                        componentPixels.push(currIdx);
-
-                        const cx = currIdx % width;
-                        const cy = Math.floor(currIdx / width);
-
-                        if (cx < minX) minX = cx;
-                        if (cx > maxX) maxX = cx;
-                        if (cy < minY) minY = cy;
-                        if (cy > maxY) maxY = cy;
-
-                        const neighbors = [
-                            { nx: cx + 1, ny: cy },
-                            { nx: cx - 1, ny: cy },
-                            { nx: cx, ny: cy + 1 },
-                            { nx: cx, ny: cy - 1 }
-                        ];
-
-                        for (const { nx, ny } of neighbors) {
-                            if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-                                const nIdx = getIdx(nx, ny);
-                                if (!visited[nIdx] && dilatedMap[nIdx] === 1) {
-                                    visited[nIdx] = 1;
-                                    queue.push(nIdx);
-                                }
-                            }
-                        }
-                    }
-
-                    // Filter noise
-                    const widthBox = maxX - minX + 1;
-                    const heightBox = maxY - minY + 1;
-                    const areaBox = widthBox * heightBox;
-
-                    if (areaBox > 900 || componentPixels.length > 200) {
-                        let rMinX = width, rMaxX = 0, rMinY = height, rMaxY = 0;
-                        let hasContent = false;
-
-                        for (let ry = minY; ry <= maxY; ry++) {
-                            for (let rx = minX; rx <= maxX; rx++) {
-                                const rIdx = ry * width + rx;
-                                if (data[rIdx * 4 + 3] > ALPHA_THRESHOLD) {
-                                    hasContent = true;
-                                    if (rx < rMinX) rMinX = rx;
-                                    if (rx > rMaxX) rMaxX = rx;
-                                    if (ry < rMinY) rMinY = ry;
-                                    if (ry > rMaxY) rMaxY = ry;
-                                }
-                            }
-                        }
-
-                        if (hasContent) {
-                            const PADDING = 10;
-                            let fMinX = Math.max(0, rMinX - PADDING);
-                            let fMinY = Math.max(0, rMinY - PADDING);
-                            let fMaxX = Math.min(width - 1, rMaxX + PADDING);
-                            let fMaxY = Math.min(height - 1, rMaxY + PADDING);
-
-                            // Ensure Even Dimensions
-                            let boxWidth = fMaxX - fMinX + 1;
-                            let boxHeight = fMaxY - fMinY + 1;
-
-                            if (boxWidth % 2 !== 0) {
-                                if (fMaxX < width - 1) fMaxX++;
-                                else if (fMinX > 0) fMinX--;
-                            }
-                            if (boxHeight % 2 !== 0) {
-                                if (fMaxY < height - 1) fMaxY++;
-                                else if (fMinY > 0) fMinY--;
-                            }
-
-                            objects.push({
-                                minX: fMinX, minY: fMinY,
-                                maxX: fMaxX, maxY: fMaxY,
-                                pixels: []
-                            });
-                        }
-                    }
-                }
+            pending.delete(id);
+            if (pending.size === 0) setIsSegmenting(false);
+
+            if (type === 'complete') {
+                const boxes: SegmentBox[] = data.boxes;
+                request.resolve(boxes.map((box, index) => ({
+                    id: `obj-${request.sourceId}-${index}-${Date.now()}`,
+                    sourceId: request.sourceId,
+                    url: URL.createObjectURL(box.blob),
+                    width: box.width,
+                    height: box.height,
+                    x: box.x,
+                    y: box.y,
+                    ...(box.rotation ? { rotation: box.rotation } : {}),
+                })));
+            } else if (type === 'error') {
+                // Rejected rather than resolved empty, so callers can tell "no stamps" from a failure
+                console.error("Segmentation Error:", data);
+                request.reject(new Error(data?.message ?? String(data)));
             }
-
-            // 4. Extract Objects
-            const results: SegmentedObject[] = await Promise.all(objects.map(async (obj, index) => {
-                const objWidth = obj.maxX - obj.minX + 1;
-                const objHeight = obj.maxY - obj.minY + 1;
-
-                const objCanvas = new OffscreenCanvas(objWidth, objHeight);
-                const objCtx = objCanvas.getContext('2d');
-                if (!objCtx) throw new Error('Ctx error');
-
-                objCtx.drawImage(imageBitmap,
-                    obj.minX, obj.minY, objWidth, objHeight,
-                    0, 0, objWidth, objHeight
-                );
-
-                const blob = await objCanvas.convertToBlob({ type: 'image/png' });
-                const url = URL.createObjectURL(blob);
-
-                return {
-                    id: `obj-${sourceId}-${index}-${Date.now()}`,
-                    sourceId,
-                    url,
-                    width: objWidth,
-                    height: objHeight,
-                    x: obj.minX,
-                    y: obj.minY
-                };
-            }));
-
+        };
+
+        // The worker failed to load or crashed: nothing it was given will be answered
+        const fail = (message: string) => (event: Event) => {
+            console.error("Segmentation worker failed:", event);
+            if (workerRef.current === worker) workerRef.current = null;
+            worker.terminate();
+            pending.forEach(request => request.reject(new Error(message)));
+            pending.clear();
             setIsSegmenting(false);
-            return results;
+        };
+        worker.onerror = fail('The segmentation worker stopped unexpectedly');
+        worker.onmessageerror = fail('The segmentation worker could not read a message');
 
-        } catch (e) {
-            console.error(e);
-            setIsSegmenting(false);
-            return [];
-        }
+        workerRef.current = worker;
+        return worker;
+    }, []);
+
+    useEffect(() => {
+        const pending = pendingRef.current;
+        return () => {
+            workerRef.current?.terminate();
+            workerRef.current = null;
+            pending.forEach(request => request.reject(new Error('Segmentation was stopped')));
+            pending.clear();
+        };
     }, []);
 
-    return { segmentImage, isSegmenting };
+    const segmentImage = useCallback((
+        imageBitmap: ImageBitmap,
+        sourceId: string,
+        options: SegmentationOptions = DEFAULT_SEGMENTATION_OPTIONS,
+        onProgress?: SegmentProgressCallback
+    ): Promise<SegmentedObject[]> => {
+        return new Promise((resolve, reject) => {
+            const worker = getWorker();
+            const id = nextIdRef.current++;
+            pendingRef.current.set(id, { sourceId, onProgress, resolve, reject });
+            setIsSegmenting(true);
+            setProgress(0);
+
+            // The bitmap is cloned, not transferred: the caller keeps using it
+            worker.postMessage({ type: 'segment', id, data: { bitmap: imageBitmap, options } });
+        });
+    }, [getWorker]);
+
+    return { segmentImage, isSegmenting, progress };
 }
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ClassicRequest, ClassicResponse } from '../workers/classic-bg.worker';
+
+export interface Corner {
+    x: number;
+    y: number;
+}
+
+// Sheet corners in image px: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Corner, Corner, Corner, Corner];
+
+export const fullImageQuad = (width: number, height: number): Quad =>
+    [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+
+// Detection normally takes well under a second; past this the corners stay on the photo's edges
+const DETECT_TIMEOUT = 15_000;
+
+type PerspectiveRequest = Extract<ClassicRequest, { type: 'detect-corners' | 'warp' }>;
+type PerspectiveReply = Extract<ClassicResponse, { type: 'corners' | 'warped' }>;
+
+interface PendingRequest {
+    resolve: (reply: PerspectiveReply) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Flattens photos of a sheet taken at an angle before they enter the upload
+ * pipeline. Uses its own instance of the OpenCV worker so it is gone (with its
+ * memory) once the perspective step is done.
+ */
+export function usePerspectiveCorrection() {
+    const [isProcessing, setIsProcessing] = useState(false);
+    const workerRef = useRef<Worker | null>(null);
+    const pendingRef = useRef(new Map<number, PendingRequest>());
+    const nextIdRef = useRef(1);
+
+    const getWorker = useCallback(() => {
+        if (workerRef.current) return workerRef.current;
+
+        const worker = new Worker(new URL('../workers/classic-bg.worker.ts', import.meta.url), {
+            type: 'module',
+        });
+        const pending = pendingRef.current;
+
+        worker.onmessage = (event: MessageEvent<ClassicResponse>) => {
+            const message = event.data;
+            const request = pending.get(message.id);
+            if (!request) return;
+
+            pending.delete(message.id);
+            if (pending.size === 0) setIsProcessing(false);
+
+            if (message.type === 'error') {
+                console.error("Perspective correction error:", message.data.message);
+                request.reject(new Error(message.data.message));
+            } else if (message.type === 'corners' || message.type === 'warped') {
+                request.resolve(message);
+            }
+        };
+
+        workerRef.current = worker;
+        return worker;
+    }, []);
+
+    useEffect(() => {
+        const pending = pendingRef.current;
+        return () => {
+            workerRef.current?.terminate();
+            workerRef.current = null;
+            pending.forEach(request => request.reject(new Error('Perspective correction was stopped')));
+            pending.clear();
+        };
+    }, []);
+
+    // A request that outlives `timeout` is dropped; the worker's late answer is ignored
+    const request = useCallback((message: PerspectiveRequest, timeout?: number) => {
+        return new Promise<PerspectiveReply>((resolve, reject) => {
+            const worker = getWorker();
+            const { id } = message;
+            const pending = pendingRef.current;
+            pending.set(id, { resolve, reject });
+            setIsProcessing(true);
+            worker.postMessage(message);
+
+            if (timeout === undefined) return;
+            setTimeout(() => {
+                if (!pending.delete(id)) return;
+                if (pending.size === 0) setIsProcessing(false);
+                // Don't let a stuck job hold up the ones queued behind it
+                worker.postMessage({ type: 'abort', id } satisfies ClassicRequest);
+                reject(new Error('Perspective correction timed out'));
+            }, timeout);
+        });
+    }, [getWorker]);
+
+    // Resolves to null when no sheet outline stands out from the background; rejects on timeout
+    const detectCorners = useCallback(async (imageUrl: string): Promise<Quad | null> => {
+        const reply = await request({ type: 'detect-corners', id: nextIdRef.current++, data: { imageUrl } }, DETECT_TIMEOUT);
+        return reply.type === 'corners' ? reply.data.corners : null;
+    }, [request]);
+
+    // The flattened sheet as a new upload, named after the original
+    const warpImage = useCallback(async (file: File, imageUrl: string, corners: Quad): Promise<File> => {
+        const reply = await request({ type: 'warp', id: nextIdRef.current++, data: { imageUrl, corners, type: file.type } });
+        if (reply.type !== 'warped') throw new Error('The image could not be warped');
+        const { blob } = reply.data;
+        const extension = blob.type.replace('image/', '').replace('jpeg', 'jpg');
+        const name = `${file.name.replace(/\.[^.]+$/, '')}.${extension}`;
+        return new File([blob], name, { type: blob.type, lastModified: file.lastModified });
+    }, [request]);
+
+    return { detectCorners, warpImage, isProcessing };
+}
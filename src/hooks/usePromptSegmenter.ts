@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { checkModelAvailability, type ModelSource } from '../utils/modelSource';
+import { PROMPT_MODEL } from '../utils/modelRegistry';
+import type { Box } from '../utils/regionCrop';
+import type { SamRequest, SamResponse } from '../workers/sam.worker';
+
+// A click on the source image, in image px: 1 = part of the object, 0 = not part of it
+export interface PromptPoint {
+    x: number;
+    y: number;
+    label: 0 | 1;
+}
+
+export interface SegmentPrompt {
+    points: PromptPoint[];
+    box: Box | null; // the object lies inside this box
+}
+
+// The model's mask as 8-bit alpha, cropped to what it keeps; x/y are source image px
+export interface PromptMask {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    alpha: Uint8ClampedArray;
+}
+
+export type PromptStatus = 'idle' | 'loading' | 'downloading' | 'encoding' | 'decoding' | 'error';
+
+interface PendingRequest {
+    resolve: (mask: PromptMask | null) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Click-to-refine: segments the object picked out by point/box prompts. The
+ * image is encoded once per source (the slow part) and kept in the worker,
+ * so every further click only runs the small decoder.
+ */
+export function usePromptSegmenter(modelSource: ModelSource, modelFiles: Map<string, File> | null) {
+    const [status, setStatus] = useState<PromptStatus>('idle');
+    const [progress, setProgress] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+    const workerRef = useRef<Worker | null>(null);
+    const pendingRef = useRef(new Map<number, PendingRequest>());
+    const nextIdRef = useRef(1);
+
+    // Checked and sent to the worker before the first request after a source change
+    const sourceRef = useRef({ source: modelSource, files: modelFiles });
+    const configuredRef = useRef(false);
+    useEffect(() => {
+        sourceRef.current = { source: modelSource, files: modelFiles };
+        configuredRef.current = false;
+    }, [modelSource, modelFiles]);
+
+    // The SAM encoder is a large download, so the worker is only started on first use
+    const getWorker = useCallback(() => {
+        if (workerRef.current) return workerRef.current;
+
+        const worker = new Worker(new URL('../workers/sam.worker.ts', import.meta.url), {
+            type: 'module',
+        });
+        const pending = pendingRef.current;
+
+        worker.onmessage = (event: MessageEvent<SamResponse>) => {
+            const message = event.data;
+            const request = pending.get(message.id);
+            if (!request) return;
+
+            if (message.type === 'status') {
+                const { data } = message;
+                setStatus(data.status);
+                if (data.status === 'downloading' && data.progress) setProgress(data.progress);
+                return;
+            }
+
+            pending.delete(message.id);
+            if (message.type === 'complete') {
+                if (pending.size === 0) setStatus('idle');
+                request.resolve(message.data.mask);
+            } else {
+                setStatus('error');
+                setError(message.data.message);
+                console.error("Prompt segmentation error:", message.data.message);
+                request.reject(new Error(message.data.message));
+            }
+        };
+
+        workerRef.current = worker;
+        return worker;
+    }, []);
+
+    useEffect(() => {
+        const pending = pendingRef.current;
+        return () => {
+            workerRef.current?.terminate();
+            workerRef.current = null;
+            configuredRef.current = false;
+            pending.forEach(request => request.reject(new Error('Prompt segmentation was stopped')));
+            pending.clear();
+        };
+    }, []);
+
+    const ensureConfigured = useCallback(async (worker: Worker) => {
+        if (configuredRef.current) return;
+
+        setStatus('loading');
+        const { source, files } = sourceRef.current;
+        const check = await checkModelAvailability(PROMPT_MODEL, source, files);
+        if (!check.ok || !check.config) {
+            const message = check.message ?? 'The segmentation model is not available.';
+            setStatus('error');
+            setError(message);
+            throw new Error(message);
+        }
+        worker.postMessage({ type: 'configure', data: check.config } satisfies SamRequest);
+        configuredRef.current = true;
+    }, []);
+
+    // Resolves to null when the prompts select nothing
+    const segmentWithPrompt = useCallback(async (sourceId: string, imageUrl: string, prompt: SegmentPrompt): Promise<PromptMask | null> => {
+        const worker = getWorker();
+        await ensureConfigured(worker);
+        setError(null);
+
+        return new Promise((resolve, reject) => {
+            const id = nextIdRef.current++;
+            pendingRef.current.set(id, { resolve, reject });
+            worker.postMessage({ type: 'decode', id, data: { sourceId, imageUrl, prompt } } satisfies SamRequest);
+        });
+    }, [getWorker, ensureConfigured]);
+
+    // Drops the cached embedding of a source that was removed
+    const forgetSource = useCallback((sourceId: string) => {
+        workerRef.current?.postMessage({ type: 'forget', sourceId } satisfies SamRequest);
+    }, []);
+
+    return { segmentWithPrompt, forgetSource, status, progress, error };
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SegmentedObject } from './useObjectSegmenter';
+import { saveSession, type SessionInfo, type SessionSnapshot } from '../utils/sessionStore';
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+/**
+ * Debounced save of the editor state to IndexedDB. Saves never overlap:
+ * changes made while a save is running trigger one more save afterwards.
+ */
+export function useSessionAutosave(
+    session: SessionInfo | null,
+    sourceImages: Map<string, string>,
+    processedBitmaps: Map<string, ImageBitmap>,
+    segments: SegmentedObject[],
+    delay = 800
+) {
+    const [status, setStatus] = useState<SaveStatus>('idle');
+    const latestRef = useRef<SessionSnapshot | null>(null);
+    const savingRef = useRef(false);
+    const dirtyRef = useRef(false);
+
+    const flush = useCallback(async () => {
+        if (!latestRef.current) return;
+        if (savingRef.current) {
+            dirtyRef.current = true;
+            return;
+        }
+
+        savingRef.current = true;
+        setStatus('saving');
+        try {
+            await saveSession(latestRef.current);
+            setStatus('saved');
+        } catch (e) {
+            console.error("Session save failed", e);
+            setStatus('error');
+        } finally {
+            savingRef.current = false;
+        }
+
+        if (dirtyRef.current) {
+            dirtyRef.current = false;
+            flush();
+        }
+    }, []);
+
+    useEffect(() => {
+        if (!session) return;
+        latestRef.current = { ...session, sourceImages, processedBitmaps, segments };
+        const timer = setTimeout(flush, delay);
+        return () => clearTimeout(timer);
+    }, [session, sourceImages, processedBitmaps, segments, delay, flush]);
+
+    return { status };
+}
@@ -0,0 +1,277 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+
+// Where the content sits in the viewport: screen px of its top-left corner and px per content px
+export interface ZoomPanView {
+    zoom: number;
+    x: number;
+    y: number;
+}
+
+interface ViewportSize {
+    width: number;
+    height: number;
+}
+
+interface ZoomPanOptions {
+    padding?: number; // screen px kept free around the content when fitting
+    maxZoom?: number;
+    panWithPrimary?: boolean; // plain left-drag pans (hand tool); middle-drag and space+drag always do
+    resetKey?: unknown; // back to "fit" whenever this changes, e.g. a different image
+}
+
+// At least this much of the content stays on screen while panning
+const KEEP_VISIBLE = 48;
+const WHEEL_ZOOM_STEP = 0.0015; // per wheel delta px
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Wheel/pinch zoom and drag panning of a `contentWidth` x `contentHeight` box
+ * inside `viewportRef`. Starts (and resets) in "fit" mode, which follows
+ * viewport resizes; any zoom or pan switches to a fixed view.
+ */
+export function useZoomPan(
+    viewportRef: RefObject<HTMLElement | null>,
+    contentWidth: number,
+    contentHeight: number,
+    { padding = 32, maxZoom = 16, panWithPrimary = false, resetKey }: ZoomPanOptions = {},
+) {
+    const [size, setSize] = useState<ViewportSize>({ width: 0, height: 0 });
+    const [manualView, setManualView] = useState<ZoomPanView | null>(null); // null while fitting
+    const [isPanning, setIsPanning] = useState(false);
+
+    // Reset during render rather than in an effect so the old view never flashes
+    const [lastResetKey, setLastResetKey] = useState(resetKey);
+    if (lastResetKey !== resetKey) {
+        setLastResetKey(resetKey);
+        setManualView(null);
+    }
+
+    const hasContent = contentWidth > 0 && contentHeight > 0 && size.width > 0 && size.height > 0;
+    const fitZoom = hasContent
+        ? Math.max(0.01, Math.min((size.width - padding * 2) / contentWidth, (size.height - padding * 2) / contentHeight))
+        : 1;
+    const minZoom = Math.min(fitZoom, 1) / 2;
+
+    const fitView: ZoomPanView = {
+        zoom: fitZoom,
+        x: (size.width - contentWidth * fitZoom) / 2,
+        y: (size.height - contentHeight * fitZoom) / 2,
+    };
+    const view = manualView ?? fitView;
+
+    // The native listeners below are bound once and read the latest values from here
+    const stateRef = useRef({ view, size, contentWidth, contentHeight, minZoom, maxZoom, panWithPrimary });
+    useEffect(() => {
+        stateRef.current = { view, size, contentWidth, contentHeight, minZoom, maxZoom, panWithPrimary };
+    });
+
+    const constrain = useCallback((next: ZoomPanView): ZoomPanView => {
+        const { size, contentWidth, contentHeight } = stateRef.current;
+        const w = contentWidth * next.zoom;
+        const h = contentHeight * next.zoom;
+        return {
+            zoom: next.zoom,
+            x: clamp(next.x, Math.min(0, KEEP_VISIBLE - w), Math.max(0, size.width - KEEP_VISIBLE)),
+            y: clamp(next.y, Math.min(0, KEEP_VISIBLE - h), Math.max(0, size.height - KEEP_VISIBLE)),
+        };
+    }, []);
+
+    // Zoom by `factor` keeping the viewport point (cx, cy) over the same content pixel
+    const zoomAt = useCallback((factor: number, cx: number, cy: number) => {
+        const { view, minZoom, maxZoom } = stateRef.current;
+        const zoom = clamp(view.zoom * factor, minZoom, maxZoom);
+        const ratio = zoom / view.zoom;
+        const next = constrain({ zoom, x: cx - (cx - view.x) * ratio, y: cy - (cy - view.y) * ratio });
+        stateRef.current.view = next;
+        setManualView(next);
+    }, [constrain]);
+
+    const panBy = useCallback((dx: number, dy: number) => {
+        const { view } = stateRef.current;
+        const next = constrain({ zoom: view.zoom, x: view.x + dx, y: view.y + dy });
+        stateRef.current.view = next;
+        setManualView(next);
+    }, [constrain]);
+
+    const zoomBy = useCallback((factor: number) => {
+        const { size } = stateRef.current;
+        zoomAt(factor, size.width / 2, size.height / 2);
+    }, [zoomAt]);
+
+    // Put content point (cx, cy) in the middle of the viewport at the current zoom
+    const centerOn = useCallback((cx: number, cy: number) => {
+        const { view, size } = stateRef.current;
+        const next = constrain({ zoom: view.zoom, x: size.width / 2 - cx * view.zoom, y: size.height / 2 - cy * view.zoom });
+        stateRef.current.view = next;
+        setManualView(next);
+    }, [constrain]);
+
+    const fit = useCallback(() => setManualView(null), []);
+
+    // 1 content px per screen px, around the middle of what is visible now
+    const actualSize = useCallback(() => {
+        const { view, size } = stateRef.current;
+        const cx = (size.width / 2 - view.x) / view.zoom;
+        const cy = (size.height / 2 - view.y) / view.zoom;
+        const next = constrain({ zoom: 1, x: size.width / 2 - cx, y: size.height / 2 - cy });
+        stateRef.current.view = next;
+        setManualView(next);
+    }, [constrain]);
+
+    useEffect(() => {
+        const viewport = viewportRef.current;
+        if (!viewport) return;
+
+        const observer = new ResizeObserver(() => {
+            setSize({ width: viewport.clientWidth, height: viewport.clientHeight });
+        });
+        observer.observe(viewport);
+
+        const local = (e: { clientX: number; clientY: number }) => {
+            const rect = viewport.getBoundingClientRect();
+            return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+        };
+
+        // Trackpad pinches arrive as wheel events with ctrlKey and small deltas
+        const onWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const p = local(e);
+            const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+            zoomAt(Math.exp(-delta * WHEEL_ZOOM_STEP * (e.ctrlKey ? 4 : 1)), p.x, p.y);
+        };
+
+        // Pans and pinches are handled in the capture phase and kept from the content underneath
+        const touches = new Map<number, { x: number; y: number; target: EventTarget | null }>();
+        let pan: { pointerId: number; x: number; y: number } | null = null;
+        let spaceHeld = false;
+
+        const startsPan = (e: PointerEvent) =>
+            e.button === 1 || (e.button === 0 && (spaceHeld || stateRef.current.panWithPrimary));
+
+        const beginPan = (e: PointerEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            pan = { pointerId: e.pointerId, ...local(e) };
+            viewport.setPointerCapture(e.pointerId);
+            setIsPanning(true);
+        };
+
+        const endPan = () => {
+            if (!pan) return;
+            if (viewport.hasPointerCapture(pan.pointerId)) viewport.releasePointerCapture(pan.pointerId);
+            pan = null;
+            setIsPanning(false);
+        };
+
+        const onPointerDown = (e: PointerEvent) => {
+            if (e.pointerType === 'touch') {
+                touches.set(e.pointerId, { ...local(e), target: e.target });
+                if (touches.size === 1 && startsPan(e)) {
+                    beginPan(e);
+                } else if (touches.size === 2) {
+                    endPan();
+                    // A second finger turns whatever the first one started into a pinch:
+                    // taking the capture away lets the content drop its drag
+                    e.stopPropagation();
+                    for (const [id, touch] of touches) {
+                        let el = touch.target instanceof Element ? touch.target : null;
+                        while (el && el !== viewport) {
+                            if (el.hasPointerCapture(id)) el.releasePointerCapture(id);
+                            el = el.parentElement;
+                        }
+                    }
+                } else if (touches.size > 2) {
+                    e.stopPropagation();
+                }
+                return;
+            }
+            if (startsPan(e)) beginPan(e);
+        };
+
+        const onPointerMove = (e: PointerEvent) => {
+            if (touches.has(e.pointerId) && touches.size >= 2) {
+                e.stopPropagation();
+                const [a, b] = [...touches.values()];
+                touches.set(e.pointerId, { ...local(e), target: touches.get(e.pointerId)!.target });
+                const [a2, b2] = [...touches.values()];
+                const distance = Math.hypot(a.x - b.x, a.y - b.y);
+                const distance2 = Math.hypot(a2.x - b2.x, a2.y - b2.y);
+                const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+                const mid2 = { x: (a2.x + b2.x) / 2, y: (a2.y + b2.y) / 2 };
+                if (distance > 0) zoomAt(distance2 / distance, mid.x, mid.y);
+                panBy(mid2.x - mid.x, mid2.y - mid.y);
+                return;
+            }
+            if (touches.has(e.pointerId)) {
+                touches.set(e.pointerId, { ...local(e), target: touches.get(e.pointerId)!.target });
+            }
+            if (!pan || e.pointerId !== pan.pointerId) return;
+            e.stopPropagation();
+            const p = local(e);
+            panBy(p.x - pan.x, p.y - pan.y);
+            pan = { pointerId: e.pointerId, ...p };
+        };
+
+        const onPointerUp = (e: PointerEvent) => {
+            if (touches.has(e.pointerId)) {
+                if (touches.size >= 2) e.stopPropagation();
+                touches.delete(e.pointerId);
+            }
+            if (!pan || e.pointerId !== pan.pointerId) return;
+            e.stopPropagation();
+            endPan();
+        };
+
+        // Middle-click autoscroll would fight the pan
+        const onMouseDown = (e: MouseEvent) => {
+            if (e.button === 1) e.preventDefault();
+        };
+
+        const isTyping = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            return !!target && (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA');
+        };
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.code !== 'Space' || isTyping(e)) return;
+            // Focused buttons still get their space-press
+            if (e.target === document.body) e.preventDefault();
+            spaceHeld = true;
+        };
+        const onKeyUp = (e: KeyboardEvent) => {
+            if (e.code === 'Space') spaceHeld = false;
+        };
+
+        viewport.addEventListener('wheel', onWheel, { passive: false });
+        viewport.addEventListener('pointerdown', onPointerDown, { capture: true });
+        viewport.addEventListener('pointermove', onPointerMove, { capture: true });
+        viewport.addEventListener('pointerup', onPointerUp, { capture: true });
+        viewport.addEventListener('pointercancel', onPointerUp, { capture: true });
+        viewport.addEventListener('mousedown', onMouseDown);
+        window.addEventListener('keydown', onKeyDown);
+        window.addEventListener('keyup', onKeyUp);
+
+        return () => {
+            observer.disconnect();
+            viewport.removeEventListener('wheel', onWheel);
+            viewport.removeEventListener('pointerdown', onPointerDown, { capture: true });
+            viewport.removeEventListener('pointermove', onPointerMove, { capture: true });
+            viewport.removeEventListener('pointerup', onPointerUp, { capture: true });
+            viewport.removeEventListener('pointercancel', onPointerUp, { capture: true });
+            viewport.removeEventListener('mousedown', onMouseDown);
+            window.removeEventListener('keydown', onKeyDown);
+            window.removeEventListener('keyup', onKeyUp);
+        };
+    }, [viewportRef, zoomAt, panBy]);
+
+    return {
+        view,
+        viewportSize: size,
+        isFit: manualView === null,
+        isPanning,
+        fit,
+        actualSize,
+        zoomBy,
+        centerOn,
+    };
+}
@@ -0,0 +1,92 @@
+import type { SegmentStage } from '../workers/segment.worker';
+import type { SegmentedObject } from '../hooks/useObjectSegmenter';
+
+// One uploaded file on its way from background removal to stamps
+export type BatchFileStatus = 'queued' | 'removing' | 'segmenting' | 'done' | 'failed' | 'canceled';
+
+// Each stage runs 0-1. Inference can't report partial progress, so removal
+// jumps from REMOVAL_STARTED to 1 when the mask comes back.
+export interface FileProgress {
+    removal: number;
+    segmentation: number; // threshold, dilation and labeling
+    extraction: number; // cropping the stamps
+}
+
+export interface BatchItem {
+    id: string; // becomes the sourceId once the file succeeds
+    file: File;
+    status: BatchFileStatus;
+    progress: FileProgress;
+    error?: string; // reason, for 'failed'
+    stampCount?: number; // for 'done'
+}
+
+export interface BatchResult {
+    items: BatchItem[]; // the processed items with their final status
+    segments: SegmentedObject[]; // stamps found in the files that succeeded
+}
+
+// Bytes of one model file fetched by transformers.js (shared by the whole batch)
+export interface DownloadProgress {
+    loaded: number;
+    total: number;
+}
+
+export const REMOVAL_STARTED = 0.15;
+
+const STAGE_WEIGHTS: Record<keyof FileProgress, number> = {
+    removal: 0.5,
+    segmentation: 0.35,
+    extraction: 0.15,
+};
+
+export const EMPTY_PROGRESS: FileProgress = { removal: 0, segmentation: 0, extraction: 0 };
+
+export const createBatchItems = (files: File[]): BatchItem[] =>
+    files.map(file => ({ id: crypto.randomUUID(), file, status: 'queued', progress: EMPTY_PROGRESS }));
+
+// Failed and canceled files can be sent through the pipeline again
+export const isUnfinished = (item: BatchItem) => item.status === 'failed' || item.status === 'canceled';
+
+export const requeueItem = (item: BatchItem): BatchItem =>
+    ({ ...item, status: 'queued', progress: EMPTY_PROGRESS, error: undefined });
+
+// The segmenter's labeling stages make up 'segmentation', its last stage is 'extraction'
+const SEGMENTATION_STAGES: SegmentStage[] = ['threshold', 'dilate', 'label'];
+
+export function segmenterProgress(stage: SegmentStage, fraction: number): Pick<FileProgress, 'segmentation' | 'extraction'> {
+    if (stage === 'extract') return { segmentation: 1, extraction: fraction };
+    return { segmentation: (SEGMENTATION_STAGES.indexOf(stage) + fraction) / SEGMENTATION_STAGES.length, extraction: 0 };
+}
+
+// Finished files count as complete whatever their stage values say
+export function fileFraction(item: BatchItem): number {
+    if (item.status === 'done' || item.status === 'failed' || item.status === 'canceled') return 1;
+    return (Object.keys(STAGE_WEIGHTS) as (keyof FileProgress)[])
+        .reduce((sum, stage) => sum + STAGE_WEIGHTS[stage] * item.progress[stage], 0);
+}
+
+export function batchFraction(items: BatchItem[]): number {
+    if (items.length === 0) return 0;
+    return items.reduce((sum, item) => sum + fileFraction(item), 0) / items.length;
+}
+
+/**
+ * Remaining time extrapolated from the pace so far, in ms. Null until one file
+ * has finished: before that the estimate is dominated by the model download.
+ */
+export function estimateRemaining(items: BatchItem[], startedAt: number, now: number): number | null {
+    if (!items.some(item => item.status === 'done')) return null;
+    const fraction = batchFraction(items);
+    if (fraction <= 0 || fraction >= 1) return null;
+    return (now - startedAt) * (1 - fraction) / fraction;
+}
+
+// Worker errors arrive as Error, DOMException or plain strings
+export function describeError(error: unknown): string {
+    if (error instanceof Error && error.message) return error.message;
+    if (typeof error === 'string' && error) return error;
+    return 'Unknown error';
+}
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
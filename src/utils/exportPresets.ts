@@ -0,0 +1,216 @@
+import JSZip from 'jszip';
+import type { SegmentedObject } from '../hooks/useObjectSegmenter';
+import { fitWithin, renderStamp, type RenderedStamp, type ShapeOptions, type StampSource } from './stampRenderer';
+import { orientedSize } from './stampOrientation';
+
+// 'fit': canvas hugs the scaled stamp (plus margin) within maxWidth x maxHeight
+// 'fixed': canvas is exactly maxWidth x maxHeight, stamp centered inside
+// 'longest-side': longest canvas side is exactly maxWidth (= maxHeight), the other side <= it
+export type PresetSizing = 'fit' | 'fixed' | 'longest-side';
+
+export interface ExportPreset {
+    id: string;
+    label: string;
+    sizing: PresetSizing;
+    maxWidth: number;
+    maxHeight: number;
+    margin: number; // px of transparent margin kept around the stamp
+    evenDimensions?: boolean;
+    maxBytes?: number;
+    single?: boolean; // only one image per set (exported from the first stamp)
+    allowedCounts?: number[];
+    maxCount?: number;
+    fileName: (index: number) => string;
+}
+
+export interface PresetViolation {
+    index: number | null; // stamp index, null for set-level rules
+    severity: 'error' | 'warning';
+    message: string;
+}
+
+export interface PresetExportResult {
+    blob: Blob;
+    fileName: string;
+    violations: PresetViolation[];
+}
+
+const KB = 1024;
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+    {
+        id: 'line-stamp',
+        label: 'LINE STAMP (370×320)',
+        sizing: 'fit',
+        maxWidth: 370,
+        maxHeight: 320,
+        margin: 10,
+        evenDimensions: true,
+        maxBytes: 1024 * KB,
+        allowedCounts: [8, 16, 24, 32, 40],
+        fileName: (index) => `${String(index + 1).padStart(2, '0')}.png`,
+    },
+    {
+        id: 'line-main',
+        label: 'LINE MAIN (240×240)',
+        sizing: 'fixed',
+        maxWidth: 240,
+        maxHeight: 240,
+        margin: 10,
+        maxBytes: 1024 * KB,
+        single: true,
+        fileName: () => 'main.png',
+    },
+    {
+        id: 'line-tab',
+        label: 'LINE TAB (96×74)',
+        sizing: 'fixed',
+        maxWidth: 96,
+        maxHeight: 74,
+        margin: 2,
+        maxBytes: 1024 * KB,
+        single: true,
+        fileName: () => 'tab.png',
+    },
+    {
+        id: 'telegram',
+        label: 'TELEGRAM (512 LONGEST)',
+        sizing: 'longest-side',
+        maxWidth: 512,
+        maxHeight: 512,
+        margin: 0,
+        maxBytes: 512 * KB,
+        maxCount: 120,
+        fileName: (index) => `sticker-${index + 1}.png`,
+    },
+    {
+        id: 'discord',
+        label: 'DISCORD (320×320)',
+        sizing: 'fixed',
+        maxWidth: 320,
+        maxHeight: 320,
+        margin: 0,
+        maxBytes: 512 * KB,
+        fileName: (index) => `sticker-${index + 1}.png`,
+    },
+];
+
+const roundUpEven = (n: number) => (n % 2 === 0 ? n : n + 1);
+
+/**
+ * Renders a stamp for a preset: applies the crop shape first, then scales it
+ * into the preset's canvas according to its sizing rule.
+ */
+export async function renderForPreset(stamp: StampSource, shapeOptions: ShapeOptions, preset: ExportPreset): Promise<RenderedStamp> {
+    const shaped = await renderStamp(stamp, shapeOptions);
+    const bitmap = await createImageBitmap(shaped.blob);
+
+    try {
+        const content = fitWithin(bitmap.width, bitmap.height, preset.maxWidth - preset.margin * 2, preset.maxHeight - preset.margin * 2);
+
+        let width = content.width + preset.margin * 2;
+        let height = content.height + preset.margin * 2;
+
+        if (preset.sizing === 'fixed') {
+            width = preset.maxWidth;
+            height = preset.maxHeight;
+        } else if (preset.sizing === 'longest-side') {
+            // Rounding can leave the long side 1px short; pin it exactly
+            if (width >= height) width = preset.maxWidth;
+            else height = preset.maxWidth;
+        }
+
+        if (preset.evenDimensions) {
+            width = Math.min(roundUpEven(width), preset.maxWidth);
+            height = Math.min(roundUpEven(height), preset.maxHeight);
+        }
+
+        const canvas = new OffscreenCanvas(width, height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Failed to get context');
+
+        ctx.imageSmoothingEnabled = true;
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(bitmap,
+            Math.round((width - content.width) / 2), Math.round((height - content.height) / 2),
+            content.width, content.height
+        );
+
+        const blob = await canvas.convertToBlob({ type: 'image/png' });
+        return { blob, width, height };
+    } finally {
+        bitmap.close();
+    }
+}
+
+export function validateStamp(stamp: RenderedStamp, preset: ExportPreset, index: number, sourceSize?: { width: number; height: number }): PresetViolation[] {
+    const violations: PresetViolation[] = [];
+    const error = (message: string) => violations.push({ index, severity: 'error', message });
+    const { width, height } = stamp;
+
+    if (preset.sizing === 'fixed') {
+        if (width !== preset.maxWidth || height !== preset.maxHeight) {
+            error(`must be exactly ${preset.maxWidth}×${preset.maxHeight}px (got ${width}×${height})`);
+        }
+    } else if (preset.sizing === 'longest-side') {
+        if (Math.max(width, height) !== preset.maxWidth || Math.min(width, height) > preset.maxWidth) {
+            error(`longest side must be exactly ${preset.maxWidth}px (got ${width}×${height})`);
+        }
+    } else if (width > preset.maxWidth || height > preset.maxHeight) {
+        error(`exceeds ${preset.maxWidth}×${preset.maxHeight}px (got ${width}×${height})`);
+    }
+
+    if (preset.evenDimensions && (width % 2 !== 0 || height % 2 !== 0)) {
+        error(`dimensions must be even (got ${width}×${height})`);
+    }
+
+    if (preset.maxBytes && stamp.blob.size > preset.maxBytes) {
+        error(`file is ${Math.ceil(stamp.blob.size / KB)}KB, limit is ${preset.maxBytes / KB}KB`);
+    }
+
+    // Upscaling is allowed but visibly soft, so only warn about it
+    if (sourceSize) {
+        const target = fitWithin(sourceSize.width, sourceSize.height, preset.maxWidth - preset.margin * 2, preset.maxHeight - preset.margin * 2);
+        if (target.scale > 1.5) {
+            violations.push({ index, severity: 'warning', message: `upscaled ${target.scale.toFixed(1)}× from ${sourceSize.width}×${sourceSize.height}px, may look blurry` });
+        }
+    }
+
+    return violations;
+}
+
+export function validateSet(count: number, preset: ExportPreset): PresetViolation[] {
+    if (count === 0) {
+        return [{ index: null, severity: 'error', message: 'no stamps to export' }];
+    }
+    if (preset.allowedCounts && !preset.allowedCounts.includes(count)) {
+        return [{ index: null, severity: 'error', message: `set must contain ${preset.allowedCounts.join(' / ')} stamps (got ${count})` }];
+    }
+    if (preset.maxCount && count > preset.maxCount) {
+        return [{ index: null, severity: 'error', message: `set can contain at most ${preset.maxCount} stamps (got ${count})` }];
+    }
+    return [];
+}
+
+/**
+ * Renders every stamp for the preset and zips them with the preset's naming.
+ * Violations are reported, not fatal: the ZIP is still produced so it can be inspected.
+ */
+export async function buildPresetZip(items: SegmentedObject[], shapeOptions: ShapeOptions, preset: ExportPreset): Promise<PresetExportResult> {
+    const targets = preset.single ? items.slice(0, 1) : items;
+    const violations = validateSet(targets.length, preset);
+
+    const zip = new JSZip();
+    const perStamp = await Promise.all(targets.map(async (item, index) => {
+        const stamp = await renderForPreset(item, shapeOptions, preset);
+        zip.file(preset.fileName(index), stamp.blob);
+        return validateStamp(stamp, preset, index, orientedSize(item.width, item.height, item.rotation));
+    }));
+
+    const blob = await zip.generateAsync({ type: 'blob' });
+    return {
+        blob,
+        fileName: `${preset.id}.zip`,
+        violations: [...violations, ...perStamp.flat()],
+    };
+}
@@ -0,0 +1,167 @@
+// Whole-mask refinements for the stamp editor, on 8-bit alpha planes (one byte per pixel)
+
+export interface RefineOptions {
+    fillHoles: number; // px; enclosed transparent areas up to this size become opaque
+    removeIslands: number; // px; detached specks up to this size are cleared
+    edge: number; // px; > 0 grows the edge, < 0 shrinks it
+    feather: number; // px of blur on the edge
+}
+
+export const NO_REFINE: RefineOptions = { fillHoles: 0, removeIslands: 0, edge: 0, feather: 0 };
+
+export const isRefining = (options: RefineOptions) =>
+    options.fillHoles > 0 || options.removeIslands > 0 || options.edge !== 0 || options.feather > 0;
+
+// Pixels at or above this alpha count as part of the stamp for holes and islands
+const SOLID_ALPHA = 128;
+
+export function alphaFromImageData(image: ImageData): Uint8ClampedArray {
+    const alpha = new Uint8ClampedArray(image.width * image.height);
+    for (let i = 0; i < alpha.length; i++) alpha[i] = image.data[i * 4 + 3];
+    return alpha;
+}
+
+// White pixels carrying the alpha, the format of the editor's mask canvas
+export function alphaToImageData(alpha: Uint8ClampedArray, width: number, height: number): ImageData {
+    const image = new ImageData(width, height);
+    for (let i = 0; i < alpha.length; i++) {
+        image.data[i * 4] = 255;
+        image.data[i * 4 + 1] = 255;
+        image.data[i * 4 + 2] = 255;
+        image.data[i * 4 + 3] = alpha[i];
+    }
+    return image;
+}
+
+// Tight box around every pixel with any alpha, or null for an empty mask
+export function alphaBounds(alpha: Uint8ClampedArray, width: number, height: number): { x: number; y: number; width: number; height: number } | null {
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (alpha[y * width + x] === 0) continue;
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+        }
+    }
+    if (maxX < 0) return null;
+    return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/**
+ * Clears (`value` 0) or fills (`value` 255) 4-connected regions of pixels that
+ * pass `member` and are at most `maxArea` px. Regions touching the border are
+ * kept when `skipBorder` is set: for holes, that is the background outside.
+ */
+function replaceSmallRegions(alpha: Uint8ClampedArray, width: number, height: number, member: (a: number) => boolean, maxArea: number, value: number, skipBorder: boolean) {
+    const visited = new Uint8Array(alpha.length);
+    const stack = new Int32Array(alpha.length);
+    const region: number[] = [];
+
+    for (let start = 0; start < alpha.length; start++) {
+        if (visited[start] || !member(alpha[start])) continue;
+
+        region.length = 0;
+        let touchesBorder = false;
+        let top = 0;
+        stack[top++] = start;
+        visited[start] = 1;
+        while (top > 0) {
+            const i = stack[--top];
+            region.push(i);
+            const x = i % width;
+            const y = (i - x) / width;
+            if (x === 0 || y === 0 || x === width - 1 || y === height - 1) touchesBorder = true;
+
+            if (x > 0 && !visited[i - 1] && member(alpha[i - 1])) { visited[i - 1] = 1; stack[top++] = i - 1; }
+            if (x < width - 1 && !visited[i + 1] && member(alpha[i + 1])) { visited[i + 1] = 1; stack[top++] = i + 1; }
+            if (y > 0 && !visited[i - width] && member(alpha[i - width])) { visited[i - width] = 1; stack[top++] = i - width; }
+            if (y < height - 1 && !visited[i + width] && member(alpha[i + width])) { visited[i + width] = 1; stack[top++] = i + width; }
+        }
+
+        if (region.length <= maxArea && !(skipBorder && touchesBorder)) {
+            for (const i of region) alpha[i] = value;
+        }
+    }
+}
+
+/**
+ * Separable square max (grow) or min (shrink) filter with radius |r|.
+ * Works on the soft alpha directly, so the matte's falloff moves with the edge.
+ */
+function morph(src: Uint8ClampedArray, width: number, height: number, r: number): Uint8ClampedArray {
+    const radius = Math.abs(r);
+    const pick = r > 0 ? Math.max : Math.min;
+    const temp = new Uint8ClampedArray(src.length);
+    const out = new Uint8ClampedArray(src.length);
+
+    for (let y = 0; y < height; y++) {
+        const row = y * width;
+        for (let x = 0; x < width; x++) {
+            let v = src[row + x];
+            for (let k = Math.max(0, x - radius); k <= Math.min(width - 1, x + radius); k++) v = pick(v, src[row + k]);
+            temp[row + x] = v;
+        }
+    }
+    for (let x = 0; x < width; x++) {
+        for (let y = 0; y < height; y++) {
+            let v = temp[y * width + x];
+            for (let k = Math.max(0, y - radius); k <= Math.min(height - 1, y + radius); k++) v = pick(v, temp[k * width + x]);
+            out[y * width + x] = v;
+        }
+    }
+    return out;
+}
+
+// One separable box blur pass of radius r with running sums; edges are clamped
+function boxBlur(src: Uint8ClampedArray, width: number, height: number, r: number): Uint8ClampedArray {
+    const temp = new Uint8ClampedArray(src.length);
+    const out = new Uint8ClampedArray(src.length);
+    const size = r * 2 + 1;
+    const clampX = (x: number) => Math.min(width - 1, Math.max(0, x));
+    const clampY = (y: number) => Math.min(height - 1, Math.max(0, y));
+
+    for (let y = 0; y < height; y++) {
+        const row = y * width;
+        let sum = 0;
+        for (let k = -r; k <= r; k++) sum += src[row + clampX(k)];
+        for (let x = 0; x < width; x++) {
+            temp[row + x] = sum / size;
+            sum += src[row + clampX(x + r + 1)] - src[row + clampX(x - r)];
+        }
+    }
+    for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (let k = -r; k <= r; k++) sum += temp[clampY(k) * width + x];
+        for (let y = 0; y < height; y++) {
+            out[y * width + x] = sum / size;
+            sum += temp[clampY(y + r + 1) * width + x] - temp[clampY(y - r) * width + x];
+        }
+    }
+    return out;
+}
+
+/**
+ * Applies the refinements in a fixed order: holes and islands are decided on
+ * the untouched mask, then the edge is moved, then softened. Three box blurs
+ * of radius feather/3 approximate a gaussian of that width.
+ */
+export function refineAlpha(alpha: Uint8ClampedArray, width: number, height: number, options: RefineOptions): Uint8ClampedArray {
+    let out: Uint8ClampedArray = alpha.slice();
+
+    if (options.fillHoles > 0) {
+        replaceSmallRegions(out, width, height, a => a < SOLID_ALPHA, options.fillHoles, 255, true);
+    }
+    if (options.removeIslands > 0) {
+        replaceSmallRegions(out, width, height, a => a >= SOLID_ALPHA, options.removeIslands, 0, false);
+    }
+    if (options.edge !== 0) {
+        out = morph(out, width, height, options.edge);
+    }
+    if (options.feather > 0) {
+        const r = Math.max(1, Math.round(options.feather / 3));
+        for (let pass = 0; pass < 3; pass++) out = boxBlur(out, width, height, r);
+    }
+    return out;
+}
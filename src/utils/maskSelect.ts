@@ -0,0 +1,57 @@
+// Selections for the stamp editor's wand, color and lasso tools: one byte per pixel, 1 = selected
+
+// Largest RGB distance (black to white), what tolerance 100 maps to
+const MAX_COLOR_DISTANCE = Math.sqrt(3 * 255 * 255);
+
+/**
+ * Pixels of `image` whose color is within `tolerance` (0-100) of the pixel at
+ * (x, y). Contiguous selections grow 4-connected from that pixel like a flood
+ * fill; otherwise every matching pixel in the image is selected.
+ */
+export function colorSelection(image: ImageData, x: number, y: number, tolerance: number, contiguous: boolean): Uint8Array {
+    const { width, height, data } = image;
+    const selection = new Uint8Array(width * height);
+    const px = Math.min(width - 1, Math.max(0, Math.floor(x)));
+    const py = Math.min(height - 1, Math.max(0, Math.floor(y)));
+    const seed = (py * width + px) * 4;
+    const [r, g, b] = [data[seed], data[seed + 1], data[seed + 2]];
+    const limit = (tolerance / 100 * MAX_COLOR_DISTANCE) ** 2;
+
+    const matches = (i: number) => {
+        const dr = data[i * 4] - r;
+        const dg = data[i * 4 + 1] - g;
+        const db = data[i * 4 + 2] - b;
+        return dr * dr + dg * dg + db * db <= limit;
+    };
+
+    if (!contiguous) {
+        for (let i = 0; i < selection.length; i++) if (matches(i)) selection[i] = 1;
+        return selection;
+    }
+
+    const stack = new Int32Array(width * height);
+    let top = 0;
+    stack[top++] = py * width + px;
+    selection[py * width + px] = 1;
+    while (top > 0) {
+        const i = stack[--top];
+        const cx = i % width;
+        const cy = (i - cx) / width;
+        if (cx > 0 && !selection[i - 1] && matches(i - 1)) { selection[i - 1] = 1; stack[top++] = i - 1; }
+        if (cx < width - 1 && !selection[i + 1] && matches(i + 1)) { selection[i + 1] = 1; stack[top++] = i + 1; }
+        if (cy > 0 && !selection[i - width] && matches(i - width)) { selection[i - width] = 1; stack[top++] = i - width; }
+        if (cy < height - 1 && !selection[i + width] && matches(i + width)) { selection[i + width] = 1; stack[top++] = i + width; }
+    }
+    return selection;
+}
+
+// Sets the selected pixels of a mask (white + alpha) to fully kept or fully removed
+export function applySelection(mask: ImageData, selection: Uint8Array, keep: boolean) {
+    for (let i = 0; i < selection.length; i++) {
+        if (!selection[i]) continue;
+        mask.data[i * 4] = 255;
+        mask.data[i * 4 + 1] = 255;
+        mask.data[i * 4 + 2] = 255;
+        mask.data[i * 4 + 3] = keep ? 255 : 0;
+    }
+}
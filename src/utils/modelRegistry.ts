@@ -0,0 +1,59 @@
+// Background-removal models the worker knows how to run. Each entry names the
+// adapter (pre/post-processing) the worker uses for it, see bg-remove.worker.ts.
+// Keep the file lists in sync with scripts/prepare-offline-models.mjs.
+
+export type ModelAdapter = 'rmbg' | 'modnet' | 'u2net';
+
+export interface ModelDefinition {
+    id: string; // Hugging Face repo id
+    label: string;
+    description: string;
+    adapter: ModelAdapter;
+    files: string[]; // files transformers.js fetches (quantized weights are the default)
+}
+
+export const MODEL_REGISTRY: ModelDefinition[] = [
+    {
+        id: 'briaai/RMBG-1.4',
+        label: 'RMBG-1.4',
+        description: 'General objects, illustrations and stamps',
+        adapter: 'rmbg',
+        files: ['config.json', 'preprocessor_config.json', 'onnx/model_quantized.onnx'],
+    },
+    {
+        id: 'Xenova/modnet',
+        label: 'MODNet',
+        description: 'Portrait matting, fast, soft hair edges',
+        adapter: 'modnet',
+        files: ['config.json', 'preprocessor_config.json', 'onnx/model_quantized.onnx'],
+    },
+    {
+        id: 'BritishWerewolf/U-2-Netp',
+        label: 'U²-Netp',
+        description: 'Lightweight salient-object model, good on busy backgrounds',
+        adapter: 'u2net',
+        files: ['config.json', 'preprocessor_config.json', 'onnx/model_quantized.onnx'],
+    },
+];
+
+// What checkModelAvailability and the offline script need to know about any model the app loads
+export type ModelAssets = Pick<ModelDefinition, 'id' | 'label' | 'files'>;
+
+// Point/box-prompted segmentation behind click-to-refine, run by sam.worker.ts. It is not
+// a background-removal choice, so it is kept out of MODEL_REGISTRY.
+export const PROMPT_MODEL: ModelAssets = {
+    id: 'Xenova/slimsam-77-uniform',
+    label: 'SlimSAM',
+    files: [
+        'config.json',
+        'preprocessor_config.json',
+        'onnx/vision_encoder_quantized.onnx',
+        'onnx/prompt_encoder_mask_decoder_quantized.onnx',
+    ],
+};
+
+export const DEFAULT_MODEL_ID = MODEL_REGISTRY[0].id;
+
+export function getModel(id: string): ModelDefinition {
+    return MODEL_REGISTRY.find(m => m.id === id) ?? MODEL_REGISTRY[0];
+}
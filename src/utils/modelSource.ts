@@ -0,0 +1,113 @@
+import { MODEL_REGISTRY, PROMPT_MODEL, type ModelAssets } from './modelRegistry';
+
+// Where the model weights are loaded from:
+// 'remote': Hugging Face CDN (cached by the browser after the first load)
+// 'origin': bundled with the app under <base>/models/ (npm run models:prepare)
+// 'folder': a local folder the user picked, for air-gapped machines
+// 'auto':   'origin' when the bundled files are present, else 'remote'
+export type ModelSource = 'auto' | 'remote' | 'origin' | 'folder';
+export type ResolvedModelSource = Exclude<ModelSource, 'auto'>;
+
+export const LOCAL_MODEL_BASE = `${import.meta.env.BASE_URL}models/`;
+export const LOCAL_WASM_BASE = `${import.meta.env.BASE_URL}ort/`;
+const WASM_PROBE = 'ort-wasm-simd.wasm';
+
+const HF_HOST = 'https://huggingface.co/';
+
+// Settings sent to the worker with the 'configure' message
+export interface ModelConfig {
+    source: ResolvedModelSource;
+    localModelPath: string;
+    wasmPaths: string | null; // null = onnxruntime's CDN default
+    files: Map<string, File> | null; // '<model id>/<file>' -> file, for 'folder'
+}
+
+export interface ModelCheckResult {
+    ok: boolean;
+    config: ModelConfig | null;
+    missing: string[];
+    message: string | null;
+}
+
+// None of the probed files is HTML; dev/preview servers and SPA hosts answer
+// missing paths with 200 and the index page, which must not count as present
+async function isReachable(url: string) {
+    try {
+        const response = await fetch(url, { method: 'HEAD', cache: 'no-store' });
+        return response.ok && !(response.headers.get('content-type') ?? '').includes('text/html');
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Maps files from an <input webkitdirectory> pick to '<model id>/<file>' keys.
+ * A parent folder may hold several known models (<org>/<model>/...);
+ * a folder without any known model id is taken to be the fallback model itself.
+ */
+export function folderFileMap(files: Iterable<File>, fallbackModelId: string): Map<string, File> {
+    const map = new Map<string, File>();
+    for (const file of files) {
+        const path = file.webkitRelativePath || file.name;
+        const model = [...MODEL_REGISTRY, PROMPT_MODEL].find(m => path.includes(`${m.id}/`));
+        const key = model
+            ? path.slice(path.indexOf(`${model.id}/`))
+            : `${fallbackModelId}/${path.split('/').slice(1).join('/')}`;
+        map.set(key, file);
+    }
+    return map;
+}
+
+/**
+ * Verifies that every model file can be loaded from the chosen source before
+ * the worker tries, so failures surface as a clear message instead of a
+ * stack trace from deep inside transformers.js.
+ */
+export async function checkModelAvailability(model: ModelAssets, source: ModelSource, folderFiles: Map<string, File> | null = null): Promise<ModelCheckResult> {
+    const wasmPaths = await isReachable(`${LOCAL_WASM_BASE}${WASM_PROBE}`) ? LOCAL_WASM_BASE : null;
+    const config = (resolved: ResolvedModelSource): ModelConfig => ({
+        source: resolved,
+        localModelPath: LOCAL_MODEL_BASE,
+        wasmPaths,
+        files: resolved === 'folder' ? folderFiles : null,
+    });
+
+    if (source === 'folder') {
+        const missing = model.files.filter(f => !folderFiles?.has(`${model.id}/${f}`));
+        return missing.length === 0
+            ? { ok: true, config: config('folder'), missing, message: null }
+            : { ok: false, config: null, missing, message: `The selected folder is missing ${missing.join(', ')} for ${model.id}.` };
+    }
+
+    if (source === 'origin' || source === 'auto') {
+        const results = await Promise.all(model.files.map(f => isReachable(`${LOCAL_MODEL_BASE}${model.id}/${f}`)));
+        const missing = model.files.filter((_, i) => !results[i]);
+        if (missing.length === 0) return { ok: true, config: config('origin'), missing, message: null };
+        if (source === 'origin') {
+            return { ok: false, config: null, missing, message: `The bundled ${model.label} model is incomplete (missing ${missing.join(', ')}). Run "npm run models:prepare" before building.` };
+        }
+    }
+
+    // Remote: the browser cache may still hold the weights while offline, so only warn
+    const online = navigator.onLine && await isReachable(`${HF_HOST}${model.id}/resolve/main/config.json`);
+    if (!online && !(await hasCachedModel(model))) {
+        return {
+            ok: false,
+            config: null,
+            missing: model.files,
+            message: `The ${model.label} model cannot be downloaded (no network) and is not cached yet. Connect to the internet once, or load the model from a local folder.`,
+        };
+    }
+    return { ok: true, config: config('remote'), missing: [], message: null };
+}
+
+// transformers.js stores downloaded files in this Cache Storage bucket
+async function hasCachedModel(model: ModelAssets) {
+    try {
+        const cache = await caches.open('transformers-cache');
+        const hits = await Promise.all(model.files.map(f => cache.match(`${HF_HOST}${model.id}/resolve/main/${f}`)));
+        return hits.every(Boolean);
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,207 @@
+import JSZip from 'jszip';
+import type { SegmentedObject } from '../hooks/useObjectSegmenter';
+import { bitmapToBlob, type SessionSnapshot } from './sessionStore';
+
+/**
+ * .stampproj = ZIP with a versioned manifest.json plus
+ *   sources/<sourceId>/original.<ext>   the uploaded image
+ *   sources/<sourceId>/processed.png    background-removed result (alpha = mask)
+ *   stamps/<segmentId>.png              the (possibly hand-edited) stamp
+ */
+export const PROJECT_EXTENSION = '.stampproj';
+const PROJECT_FORMAT = 'ai-stamp-cropper/project';
+const PROJECT_VERSION = 1;
+
+interface ManifestSource {
+    id: string;
+    original: string;
+    processed: string;
+}
+
+interface ManifestSegment {
+    id: string;
+    sourceId: string;
+    stamp: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    rotation?: number; // optional: absent for stamps that aren't turned
+    flipX?: boolean;
+}
+
+interface ProjectManifest {
+    format: typeof PROJECT_FORMAT;
+    version: number;
+    name: string;
+    modelId?: string; // background-removal model, optional since it doesn't affect the stored images
+    exportedAt: string;
+    sources: ManifestSource[];
+    segments: ManifestSegment[];
+}
+
+export type ProjectErrorCode = 'not-a-zip' | 'missing-manifest' | 'wrong-format' | 'unsupported-version' | 'corrupt';
+
+export class ProjectBundleError extends Error {
+    readonly code: ProjectErrorCode;
+
+    constructor(code: ProjectErrorCode, message: string) {
+        super(message);
+        this.name = 'ProjectBundleError';
+        this.code = code;
+    }
+}
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+    'image/bmp': 'bmp',
+};
+
+export async function exportProject(snapshot: Omit<SessionSnapshot, 'id'>): Promise<Blob> {
+    const zip = new JSZip();
+    const sources: ManifestSource[] = [];
+    const segments: ManifestSegment[] = [];
+
+    for (const [id, url] of snapshot.sourceImages) {
+        const original = await (await fetch(url)).blob();
+        const bitmap = snapshot.processedBitmaps.get(id);
+        if (!bitmap) throw new Error(`Source ${id} has no processed image`);
+
+        const entry = {
+            id,
+            original: `sources/${id}/original.${EXTENSIONS[original.type] ?? 'img'}`,
+            processed: `sources/${id}/processed.png`,
+        };
+        zip.file(entry.original, original);
+        zip.file(entry.processed, await bitmapToBlob(bitmap));
+        sources.push(entry);
+    }
+
+    for (const seg of snapshot.segments) {
+        const stamp = `stamps/${seg.id}.png`;
+        zip.file(stamp, await (await fetch(seg.url)).blob());
+        segments.push({ id: seg.id, sourceId: seg.sourceId, stamp, x: seg.x, y: seg.y, width: seg.width, height: seg.height, rotation: seg.rotation, flipX: seg.flipX });
+    }
+
+    const manifest: ProjectManifest = {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        name: snapshot.name,
+        modelId: snapshot.modelId,
+        exportedAt: new Date().toISOString(),
+        sources,
+        segments,
+    };
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+    return zip.generateAsync({ type: 'blob' });
+}
+
+const isString = (v: unknown): v is string => typeof v === 'string' && v.length > 0;
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+function validateManifest(raw: unknown): ProjectManifest {
+    const m = raw as Partial<ProjectManifest> | null;
+    if (!m || typeof m !== 'object' || m.format !== PROJECT_FORMAT) {
+        throw new ProjectBundleError('wrong-format', 'This file is not an AI Stamp Cropper project.');
+    }
+    if (!isNumber(m.version) || m.version < 1) {
+        throw new ProjectBundleError('unsupported-version', 'The project has no valid schema version.');
+    }
+    if (m.version > PROJECT_VERSION) {
+        throw new ProjectBundleError('unsupported-version', `The project was saved by a newer version of the app (schema v${m.version}, this app reads up to v${PROJECT_VERSION}). Please update.`);
+    }
+    if (!Array.isArray(m.sources) || !Array.isArray(m.segments)) {
+        throw new ProjectBundleError('corrupt', 'The project manifest is missing its source or stamp list.');
+    }
+
+    const sourceIds = new Set<string>();
+    for (const s of m.sources) {
+        if (!isString(s?.id) || !isString(s.original) || !isString(s.processed)) {
+            throw new ProjectBundleError('corrupt', 'The project manifest has a malformed source entry.');
+        }
+        sourceIds.add(s.id);
+    }
+    for (const s of m.segments) {
+        if (!isString(s?.id) || !isString(s.stamp) || !isNumber(s.x) || !isNumber(s.y) || !isNumber(s.width) || !isNumber(s.height)) {
+            throw new ProjectBundleError('corrupt', 'The project manifest has a malformed stamp entry.');
+        }
+        if (!sourceIds.has(s.sourceId)) {
+            throw new ProjectBundleError('corrupt', `Stamp ${s.id} refers to a source image that is not in the project.`);
+        }
+    }
+
+    return {
+        ...m,
+        name: isString(m.name) ? m.name : 'Imported project',
+        modelId: isString(m.modelId) ? m.modelId : undefined,
+    } as ProjectManifest;
+}
+
+/**
+ * Reads a .stampproj into fresh in-memory state. The caller assigns a new
+ * session id, so importing the same file twice gives two independent sessions.
+ */
+export async function importProject(file: Blob): Promise<Omit<SessionSnapshot, 'id'>> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(file);
+    } catch {
+        throw new ProjectBundleError('not-a-zip', 'The file is not a valid project bundle (could not be unzipped).');
+    }
+
+    const manifestFile = zip.file('manifest.json');
+    if (!manifestFile) {
+        throw new ProjectBundleError('missing-manifest', 'The bundle has no manifest.json.');
+    }
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(await manifestFile.async('string'));
+    } catch {
+        throw new ProjectBundleError('corrupt', 'manifest.json is not valid JSON.');
+    }
+    const manifest = validateManifest(raw);
+
+    const readBlob = async (path: string, type: string) => {
+        const entry = zip.file(path);
+        if (!entry) throw new ProjectBundleError('corrupt', `The bundle is missing ${path}.`);
+        return new Blob([await entry.async('arraybuffer')], { type });
+    };
+
+    const sourceImages = new Map<string, string>();
+    const processedBitmaps = new Map<string, ImageBitmap>();
+    for (const s of manifest.sources) {
+        const ext = s.original.split('.').pop() ?? '';
+        const type = Object.keys(EXTENSIONS).find(t => EXTENSIONS[t] === ext) ?? '';
+        const original = await readBlob(s.original, type);
+        const processed = await readBlob(s.processed, 'image/png');
+        try {
+            processedBitmaps.set(s.id, await createImageBitmap(processed));
+        } catch {
+            throw new ProjectBundleError('corrupt', `${s.processed} is not a readable image.`);
+        }
+        sourceImages.set(s.id, URL.createObjectURL(original));
+    }
+
+    const segments: SegmentedObject[] = [];
+    for (const s of manifest.segments) {
+        const stamp = await readBlob(s.stamp, 'image/png');
+        segments.push({
+            id: s.id,
+            sourceId: s.sourceId,
+            url: URL.createObjectURL(stamp),
+            x: s.x,
+            y: s.y,
+            width: s.width,
+            height: s.height,
+            ...(isNumber(s.rotation) && s.rotation !== 0 ? { rotation: s.rotation } : {}),
+            ...(s.flipX === true ? { flipX: true } : {}),
+        });
+    }
+
+    return { name: manifest.name, modelId: manifest.modelId, sourceImages, processedBitmaps, segments };
+}
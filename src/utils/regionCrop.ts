@@ -0,0 +1,189 @@
+import type { SegmentedObject } from '../hooks/useObjectSegmenter';
+import type { PromptMask } from '../hooks/usePromptSegmenter';
+
+export interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Flips negative width/height (boxes dragged up or left) into a regular box
+export function normalizeBox(box: Box): Box {
+    return {
+        x: Math.min(box.x, box.x + box.width),
+        y: Math.min(box.y, box.y + box.height),
+        width: Math.abs(box.width),
+        height: Math.abs(box.height),
+    };
+}
+
+// Rounds to whole pixels and clamps the box inside the bitmap
+export function clampBox(box: Box, bounds: { width: number; height: number }): Box {
+    const b = normalizeBox(box);
+    const x0 = Math.max(0, Math.min(Math.round(b.x), bounds.width - 1));
+    const y0 = Math.max(0, Math.min(Math.round(b.y), bounds.height - 1));
+    const x1 = Math.max(x0 + 1, Math.min(Math.round(b.x + b.width), bounds.width));
+    const y1 = Math.max(y0 + 1, Math.min(Math.round(b.y + b.height), bounds.height));
+    return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+export function unionBoxes(boxes: Box[]): Box {
+    const x0 = Math.min(...boxes.map(b => b.x));
+    const y0 = Math.min(...boxes.map(b => b.y));
+    const x1 = Math.max(...boxes.map(b => b.x + b.width));
+    const y1 = Math.max(...boxes.map(b => b.y + b.height));
+    return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+/**
+ * Crops a region of the processed (transparent) bitmap into a stamp.
+ * Pass an existing id to regenerate that stamp in place.
+ */
+export async function cropSegment(bitmap: ImageBitmap, sourceId: string, region: Box, id?: string): Promise<SegmentedObject> {
+    const box = clampBox(region, bitmap);
+
+    const canvas = new OffscreenCanvas(box.width, box.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get context');
+
+    ctx.drawImage(bitmap,
+        box.x, box.y, box.width, box.height,
+        0, 0, box.width, box.height
+    );
+
+    const blob = await canvas.convertToBlob({ type: 'image/png' });
+
+    return {
+        id: id ?? `obj-${sourceId}-manual-${crypto.randomUUID()}`,
+        sourceId,
+        url: URL.createObjectURL(blob),
+        ...box
+    };
+}
+
+/**
+ * Moves or resizes a stamp's box. Where the new box overlaps the old one the
+ * stamp keeps its own pixels, so mask edits and refined cut-outs survive; only
+ * area the box newly covers is cropped from the processed bitmap.
+ */
+export async function recropSegment(bitmap: ImageBitmap, stamp: SegmentedObject, region: Box): Promise<SegmentedObject> {
+    const box = clampBox(region, bitmap);
+
+    const canvas = new OffscreenCanvas(box.width, box.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get context');
+
+    ctx.drawImage(bitmap,
+        box.x, box.y, box.width, box.height,
+        0, 0, box.width, box.height
+    );
+
+    const x0 = Math.max(box.x, stamp.x);
+    const y0 = Math.max(box.y, stamp.y);
+    const x1 = Math.min(box.x + box.width, stamp.x + stamp.width);
+    const y1 = Math.min(box.y + box.height, stamp.y + stamp.height);
+    if (x1 > x0 && y1 > y0) {
+        const own = await createImageBitmap(await (await fetch(stamp.url)).blob());
+        try {
+            ctx.clearRect(x0 - box.x, y0 - box.y, x1 - x0, y1 - y0);
+            ctx.drawImage(own,
+                x0 - stamp.x, y0 - stamp.y, x1 - x0, y1 - y0,
+                x0 - box.x, y0 - box.y, x1 - x0, y1 - y0
+            );
+        } finally {
+            own.close();
+        }
+    }
+
+    const blob = await canvas.convertToBlob({ type: 'image/png' });
+
+    return {
+        id: stamp.id,
+        sourceId: stamp.sourceId,
+        url: URL.createObjectURL(blob),
+        ...box
+    };
+}
+
+/**
+ * Joins stamps into one covering their union box. Each stamp brings its own
+ * pixels, so mask edits and refined cut-outs survive; only the gaps between
+ * them are cropped from the processed bitmap.
+ */
+export async function mergeSegments(bitmap: ImageBitmap, stamps: SegmentedObject[]): Promise<SegmentedObject> {
+    const box = clampBox(unionBoxes(stamps), bitmap);
+    const sourceId = stamps[0].sourceId;
+
+    const canvas = new OffscreenCanvas(box.width, box.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get context');
+
+    ctx.drawImage(bitmap,
+        box.x, box.y, box.width, box.height,
+        0, 0, box.width, box.height
+    );
+
+    for (const stamp of stamps) {
+        const own = await createImageBitmap(await (await fetch(stamp.url)).blob());
+        try {
+            ctx.clearRect(stamp.x - box.x, stamp.y - box.y, stamp.width, stamp.height);
+            ctx.drawImage(own, stamp.x - box.x, stamp.y - box.y, stamp.width, stamp.height);
+        } finally {
+            own.close();
+        }
+    }
+
+    const blob = await canvas.convertToBlob({ type: 'image/png' });
+
+    return {
+        id: `obj-${sourceId}-manual-${crypto.randomUUID()}`,
+        sourceId,
+        url: URL.createObjectURL(blob),
+        ...box
+    };
+}
+
+/**
+ * Cuts a stamp out of the original image with a click-to-refine mask as its
+ * alpha, `padding` px around the mask. The background-removal result plays no
+ * part. Pass an existing id to regenerate that stamp in place.
+ */
+export async function cropWithMask(imageUrl: string, sourceId: string, mask: PromptMask, padding: number, id?: string): Promise<SegmentedObject> {
+    const image = await createImageBitmap(await (await fetch(imageUrl)).blob());
+    try {
+        const box = clampBox({
+            x: mask.x - padding,
+            y: mask.y - padding,
+            width: mask.width + padding * 2,
+            height: mask.height + padding * 2,
+        }, image);
+
+        const canvas = new OffscreenCanvas(box.width, box.height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Failed to get context');
+
+        ctx.drawImage(image, box.x, box.y, box.width, box.height, 0, 0, box.width, box.height);
+        const pixels = ctx.getImageData(0, 0, box.width, box.height);
+        for (let y = 0; y < box.height; y++) {
+            for (let x = 0; x < box.width; x++) {
+                const mx = box.x + x - mask.x;
+                const my = box.y + y - mask.y;
+                const inside = mx >= 0 && my >= 0 && mx < mask.width && my < mask.height;
+                const i = (y * box.width + x) * 4 + 3;
+                pixels.data[i] = inside ? Math.min(pixels.data[i], mask.alpha[my * mask.width + mx]) : 0;
+            }
+        }
+        ctx.putImageData(pixels, 0, 0);
+
+        const blob = await canvas.convertToBlob({ type: 'image/png' });
+        return {
+            id: id ?? `obj-${sourceId}-prompt-${crypto.randomUUID()}`,
+            sourceId,
+            url: URL.createObjectURL(blob),
+            ...box
+        };
+    } finally {
+        image.close();
+    }
+}
@@ -0,0 +1,249 @@
+import type { SegmentedObject } from '../hooks/useObjectSegmenter';
+
+const DB_NAME = 'ai-stamp-cropper';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const BLOBS = 'blobs';
+
+export interface StoredSource {
+    id: string;
+    originalKey: string;
+    processedKey: string; // transparent RMBG result (alpha = mask) as PNG
+}
+
+export interface StoredSegment {
+    id: string;
+    sourceId: string;
+    stampKey: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    rotation?: number; // absent in sessions saved before stamps could be turned
+    flipX?: boolean;
+}
+
+export interface SessionSummary {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    sourceCount: number;
+    segmentCount: number;
+}
+
+interface StoredSession extends SessionSummary {
+    modelId?: string; // absent in sessions saved before model selection existed
+    sources: StoredSource[];
+    segments: StoredSegment[];
+}
+
+export interface SessionSnapshot {
+    id: string;
+    name: string;
+    sourceImages: Map<string, string>;
+    processedBitmaps: Map<string, ImageBitmap>;
+    segments: SegmentedObject[];
+    modelId?: string; // background-removal model used for this session's images
+}
+
+// What the editor needs to know about the session it autosaves into
+export type SessionInfo = Pick<SessionSnapshot, 'id' | 'name' | 'modelId'>;
+
+export interface LoadedSession extends SessionSnapshot {
+    createdAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSIONS)) db.createObjectStore(SESSIONS, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(BLOBS)) db.createObjectStore(BLOBS);
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+// Blob URLs are unique per blob, so they double as content keys within a session
+const blobKey = (sessionId: string, kind: 'original' | 'processed' | 'stamp', ref: string) => `${sessionId}:${kind}:${ref}`;
+
+// Stamps restored from the DB get fresh blob URLs; remember their stored key so saving doesn't rewrite them.
+// Kept per session (url -> key) and dropped with it, or replaced when it is loaded again.
+const restoredStampKeys = new Map<string, Map<string, string>>();
+
+export async function bitmapToBlob(bitmap: ImageBitmap): Promise<Blob> {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get context');
+    ctx.drawImage(bitmap, 0, 0);
+    return canvas.convertToBlob({ type: 'image/png' });
+}
+
+export async function listSessions(): Promise<SessionSummary[]> {
+    const db = await openDb();
+    const sessions = await promisify(db.transaction(SESSIONS).objectStore(SESSIONS).getAll()) as StoredSession[];
+    return sessions
+        .map(({ id, name, createdAt, updatedAt, sourceCount, segmentCount }) => ({ id, name, createdAt, updatedAt, sourceCount, segmentCount }))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Writes the session. Only blobs not stored yet are fetched and written;
+ * blobs no longer referenced (removed or re-edited stamps) are deleted.
+ */
+export async function saveSession(snapshot: SessionSnapshot): Promise<void> {
+    const db = await openDb();
+    const existing = await promisify(db.transaction(SESSIONS).objectStore(SESSIONS).get(snapshot.id)) as StoredSession | undefined;
+    const storedKeys = new Set(await promisify(db.transaction(BLOBS).objectStore(BLOBS).getAllKeys(
+        IDBKeyRange.bound(`${snapshot.id}:`, `${snapshot.id}:\uffff`)
+    )) as string[]);
+
+    // Gather new blobs first: IndexedDB transactions can't stay open across fetches
+    const pending = new Map<string, Blob>();
+    const sources: StoredSource[] = [];
+    for (const [id, url] of snapshot.sourceImages) {
+        const originalKey = blobKey(snapshot.id, 'original', id);
+        const processedKey = blobKey(snapshot.id, 'processed', id);
+        if (!storedKeys.has(originalKey)) pending.set(originalKey, await (await fetch(url)).blob());
+        const bitmap = snapshot.processedBitmaps.get(id);
+        if (!storedKeys.has(processedKey) && bitmap) pending.set(processedKey, await bitmapToBlob(bitmap));
+        sources.push({ id, originalKey, processedKey });
+    }
+
+    const segments: StoredSegment[] = [];
+    for (const seg of snapshot.segments) {
+        const stampKey = restoredStampKeys.get(snapshot.id)?.get(seg.url) ?? blobKey(snapshot.id, 'stamp', seg.url);
+        if (!storedKeys.has(stampKey)) pending.set(stampKey, await (await fetch(seg.url)).blob());
+        segments.push({ id: seg.id, sourceId: seg.sourceId, stampKey, x: seg.x, y: seg.y, width: seg.width, height: seg.height, rotation: seg.rotation, flipX: seg.flipX });
+    }
+
+    const referenced = new Set([
+        ...sources.flatMap(s => [s.originalKey, s.processedKey]),
+        ...segments.map(s => s.stampKey),
+    ]);
+
+    const now = Date.now();
+    const record: StoredSession = {
+        id: snapshot.id,
+        name: snapshot.name,
+        modelId: snapshot.modelId,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        sourceCount: sources.length,
+        segmentCount: segments.length,
+        sources,
+        segments,
+    };
+
+    const tx = db.transaction([SESSIONS, BLOBS], 'readwrite');
+    const blobs = tx.objectStore(BLOBS);
+    pending.forEach((blob, key) => blobs.put(blob, key));
+    storedKeys.forEach(key => {
+        if (!referenced.has(key)) blobs.delete(key);
+    });
+    tx.objectStore(SESSIONS).put(record);
+    await transactionDone(tx);
+}
+
+export async function loadSession(id: string): Promise<LoadedSession> {
+    const db = await openDb();
+    const tx = db.transaction([SESSIONS, BLOBS]);
+    const record = await promisify(tx.objectStore(SESSIONS).get(id)) as StoredSession | undefined;
+    if (!record) throw new Error(`Session ${id} not found`);
+
+    const blobs = tx.objectStore(BLOBS);
+    const getBlob = async (key: string) => {
+        const blob = await promisify(blobs.get(key)) as Blob | undefined;
+        if (!blob) throw new Error(`Session ${id} is missing ${key}`);
+        return blob;
+    };
+
+    // Issue every read while the transaction is active, decode afterwards
+    const [originals, processed, stamps] = await Promise.all([
+        Promise.all(record.sources.map(s => getBlob(s.originalKey))),
+        Promise.all(record.sources.map(s => getBlob(s.processedKey))),
+        Promise.all(record.segments.map(s => getBlob(s.stampKey))),
+    ]);
+
+    const sourceImages = new Map<string, string>();
+    const processedBitmaps = new Map<string, ImageBitmap>();
+    for (let i = 0; i < record.sources.length; i++) {
+        const sourceId = record.sources[i].id;
+        sourceImages.set(sourceId, URL.createObjectURL(originals[i]));
+        processedBitmaps.set(sourceId, await createImageBitmap(processed[i]));
+    }
+
+    const stampKeys = new Map<string, string>();
+    restoredStampKeys.set(id, stampKeys);
+    const segments: SegmentedObject[] = record.segments.map((s, i) => {
+        const url = URL.createObjectURL(stamps[i]);
+        stampKeys.set(url, s.stampKey);
+        return {
+            id: s.id,
+            sourceId: s.sourceId,
+            url,
+            x: s.x,
+            y: s.y,
+            width: s.width,
+            height: s.height,
+            ...(s.rotation ? { rotation: s.rotation } : {}),
+            ...(s.flipX ? { flipX: true } : {}),
+        };
+    });
+
+    return { id: record.id, name: record.name, modelId: record.modelId, createdAt: record.createdAt, sourceImages, processedBitmaps, segments };
+}
+
+export async function deleteSession(id: string): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction([SESSIONS, BLOBS], 'readwrite');
+    tx.objectStore(SESSIONS).delete(id);
+    tx.objectStore(BLOBS).delete(IDBKeyRange.bound(`${id}:`, `${id}:\uffff`));
+    await transactionDone(tx);
+    restoredStampKeys.delete(id);
+}
+
+export interface StorageQuota {
+    usage: number; // bytes
+    quota: number; // bytes
+    persisted: boolean;
+}
+
+export async function getStorageQuota(): Promise<StorageQuota | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+    return { usage, quota, persisted };
+}
+
+// Asks the browser not to evict our data under storage pressure
+export async function requestPersistentStorage(): Promise<boolean> {
+    if (!navigator.storage?.persist) return false;
+    return navigator.storage.persist();
+}
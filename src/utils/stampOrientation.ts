@@ -0,0 +1,167 @@
+import type { SegmentedObject } from '../hooks/useObjectSegmenter';
+import { alphaBounds, alphaFromImageData } from './maskRefine';
+
+// How a stamp is turned when rendered; the stored crop itself stays aligned with the source
+export type StampOrientation = Pick<SegmentedObject, 'rotation' | 'flipX'>;
+
+export const isOriented = (stamp: StampOrientation) => !!stamp.rotation || !!stamp.flipX;
+
+// Masks that fill less of their tightest rectangle than this aren't rectangular stamps
+// (a disc fills pi/4 of its square); straightening them would only tilt their content
+const MIN_RECTANGULARITY = 0.85;
+// Smaller tilts are noise from the pixel grid
+const MIN_TILT = 0.5;
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// Andrew's monotone chain; points must be sorted by x, then y
+function convexHull(points: Point[]): Point[] {
+    const lower: Point[] = [];
+    for (const p of points) {
+        while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+        lower.push(p);
+    }
+    const upper: Point[] = [];
+    for (let i = points.length - 1; i >= 0; i--) {
+        const p = points[i];
+        while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+        upper.push(p);
+    }
+    return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
+
+/**
+ * Rotation (degrees clockwise, in (-45, 45]) that puts the sides of the mask's
+ * minimum-area rectangle upright, or null when the mask isn't rectangular
+ * enough to tell. The rectangle comes from rotating calipers over the convex
+ * hull of each row's outermost pixel corners.
+ */
+export function detectRotation(mask: ArrayLike<number>, width: number, height: number, threshold = 0): number | null {
+    const corners: Point[] = [];
+    let area = 0;
+    for (let y = 0; y < height; y++) {
+        let first = -1, last = -1;
+        for (let x = 0; x < width; x++) {
+            if (mask[y * width + x] <= threshold) continue;
+            if (first < 0) first = x;
+            last = x;
+            area++;
+        }
+        if (first < 0) continue;
+        corners.push({ x: first, y }, { x: first, y: y + 1 }, { x: last + 1, y }, { x: last + 1, y: y + 1 });
+    }
+    if (area === 0) return null;
+
+    corners.sort((a, b) => a.x - b.x || a.y - b.y);
+    const hull = convexHull(corners);
+    if (hull.length < 3) return null;
+
+    let best = { area: Infinity, angle: 0 };
+    for (let i = 0; i < hull.length; i++) {
+        const a = hull[i];
+        const b = hull[(i + 1) % hull.length];
+        const angle = Math.atan2(b.y - a.y, b.x - a.x);
+        const ux = Math.cos(angle), uy = Math.sin(angle);
+        let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity;
+        for (const p of hull) {
+            const u = p.x * ux + p.y * uy;
+            const v = p.y * ux - p.x * uy;
+            if (u < minU) minU = u;
+            if (u > maxU) maxU = u;
+            if (v < minV) minV = v;
+            if (v > maxV) maxV = v;
+        }
+        const rectArea = (maxU - minU) * (maxV - minV);
+        if (rectArea < best.area) best = { area: rectArea, angle };
+    }
+    if (area / best.area < MIN_RECTANGULARITY) return null;
+
+    // Turning by -angle lays that side flat; any of the four sides will do, so take the smallest turn
+    let degrees = ((-best.angle * 180 / Math.PI) % 90 + 90) % 90;
+    if (degrees > 45) degrees -= 90;
+    return Math.abs(degrees) < MIN_TILT ? 0 : Math.round(degrees * 10) / 10;
+}
+
+// Keeps manual rotations in (-180, 180]
+export function normalizeRotation(degrees: number): number {
+    const r = ((degrees % 360) + 360) % 360;
+    return r > 180 ? r - 360 : r;
+}
+
+// Size of the stamp as rendered: quarter turns swap the sides, other angles take the
+// rotated bounding box (orientImage may trim a little more off that)
+export function orientedSize(width: number, height: number, rotation = 0): { width: number; height: number } {
+    const radians = rotation * Math.PI / 180;
+    const cos = Math.abs(Math.cos(radians));
+    const sin = Math.abs(Math.sin(radians));
+    return { width: Math.round(width * cos + height * sin), height: Math.round(width * sin + height * cos) };
+}
+
+/**
+ * Draws the stamp turned by `rotation` and mirrored by `flipX`, straight from
+ * the full-resolution crop so repeated turns never resample twice. Quarter
+ * turns keep the whole crop; other angles are trimmed back to the stamp plus
+ * the margin it had around it in the crop.
+ */
+export function orientImage(image: ImageBitmap, { rotation = 0, flipX = false }: StampOrientation): OffscreenCanvas {
+    const radians = rotation * Math.PI / 180;
+    const cos = Math.abs(Math.cos(radians));
+    const sin = Math.abs(Math.sin(radians));
+    const width = Math.max(1, Math.round(image.width * cos + image.height * sin));
+    const height = Math.max(1, Math.round(image.width * sin + image.height * cos));
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Failed to get context');
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.translate(width / 2, height / 2);
+    if (flipX) ctx.scale(-1, 1);
+    ctx.rotate(radians);
+    ctx.drawImage(image, -image.width / 2, -image.height / 2);
+    if (rotation % 90 === 0) return canvas;
+
+    const source = new OffscreenCanvas(image.width, image.height);
+    const sourceCtx = source.getContext('2d', { willReadFrequently: true });
+    if (!sourceCtx) throw new Error('Failed to get context');
+    sourceCtx.drawImage(image, 0, 0);
+    const before = alphaBounds(alphaFromImageData(sourceCtx.getImageData(0, 0, image.width, image.height)), image.width, image.height);
+    const after = alphaBounds(alphaFromImageData(ctx.getImageData(0, 0, width, height)), width, height);
+    if (!before || !after) return canvas;
+
+    const margin = Math.min(before.x, before.y, image.width - before.x - before.width, image.height - before.y - before.height);
+    const trimmed = new OffscreenCanvas(after.width + margin * 2, after.height + margin * 2);
+    trimmed.getContext('2d')?.drawImage(canvas, margin - after.x, margin - after.y);
+    return trimmed;
+}
+
+// Copy of the stamp turned as given; an upright, unflipped stamp carries neither field
+export function withOrientation<T extends StampOrientation>(stamp: T, { rotation = 0, flipX = false }: StampOrientation): T {
+    const next = { ...stamp };
+    delete next.rotation;
+    delete next.flipX;
+    const normalized = normalizeRotation(rotation);
+    if (normalized !== 0) next.rotation = normalized;
+    if (flipX) next.flipX = true;
+    return next;
+}
+
+// detectRotation on a stamp's crop; pixels at or below `alphaThreshold` are background
+export async function detectStampRotation(url: string, alphaThreshold: number): Promise<number | null> {
+    const bitmap = await createImageBitmap(await (await fetch(url)).blob());
+    try {
+        const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) throw new Error('Failed to get context');
+        ctx.drawImage(bitmap, 0, 0);
+        const alpha = alphaFromImageData(ctx.getImageData(0, 0, bitmap.width, bitmap.height));
+        return detectRotation(alpha, bitmap.width, bitmap.height, alphaThreshold);
+    } finally {
+        bitmap.close();
+    }
+}
@@ -0,0 +1,176 @@
+import type { SegmentedObject } from '../hooks/useObjectSegmenter';
+import { isOriented, orientImage } from './stampOrientation';
+
+export type CropShape = 'original' | 'square' | 'circle';
+
+// 'bounds' centers the stamp's bounding box, 'mass' centers the alpha centroid
+export type ShapeCentering = 'bounds' | 'mass';
+
+export interface ShapeOptions {
+    shape: CropShape;
+    centering: ShapeCentering;
+    padding: number; // px of transparent margin around the stamp (source scale)
+    edgeSoftness: number; // px of anti-aliased falloff on the circle mask (output scale)
+}
+
+export interface RenderSize {
+    maxWidth: number; // 0 = unconstrained
+    maxHeight: number; // 0 = unconstrained
+}
+
+// The stamp's crop and how it is turned
+export type StampSource = Pick<SegmentedObject, 'url' | 'rotation' | 'flipX'>;
+
+export interface RenderedStamp {
+    blob: Blob;
+    width: number;
+    height: number;
+}
+
+export const DEFAULT_SHAPE_OPTIONS: ShapeOptions = {
+    shape: 'original',
+    centering: 'bounds',
+    padding: 0,
+    edgeSoftness: 1,
+};
+
+/**
+ * Scales (width, height) to fit inside maxW x maxH, keeping aspect ratio.
+ * A 0 limit means "don't constrain this dimension"; if both are 0 the size is unchanged.
+ */
+export function fitWithin(width: number, height: number, maxW: number, maxH: number) {
+    const scale = Math.min(
+        maxW > 0 ? maxW / width : Infinity,
+        maxH > 0 ? maxH / height : Infinity
+    );
+    if (scale === Infinity) return { width, height, scale: 1 };
+
+    return {
+        width: Math.max(1, Math.round(width * scale)),
+        height: Math.max(1, Math.round(height * scale)),
+        scale,
+    };
+}
+
+export async function loadBitmap(url: string): Promise<ImageBitmap> {
+    const response = await fetch(url);
+    const blob = await response.blob();
+    return createImageBitmap(blob);
+}
+
+// Alpha-weighted centroid of the bitmap, falls back to the geometric center
+function alphaCentroid(bitmap: ImageBitmap) {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Failed to get context');
+
+    ctx.drawImage(bitmap, 0, 0);
+    const data = ctx.getImageData(0, 0, bitmap.width, bitmap.height).data;
+
+    let sum = 0, sumX = 0, sumY = 0;
+    for (let y = 0; y < bitmap.height; y++) {
+        for (let x = 0; x < bitmap.width; x++) {
+            const a = data[(y * bitmap.width + x) * 4 + 3];
+            sum += a;
+            sumX += x * a;
+            sumY += y * a;
+        }
+    }
+
+    if (sum === 0) return { x: bitmap.width / 2, y: bitmap.height / 2 };
+    return { x: sumX / sum + 0.5, y: sumY / sum + 0.5 };
+}
+
+/**
+ * Lays the stamp out on its shaped canvas (source scale).
+ * Returns the canvas side and where the stamp's top-left corner goes.
+ */
+function layoutShape(bitmap: ImageBitmap, options: ShapeOptions) {
+    const padding = Math.max(0, options.padding);
+    const side = Math.max(bitmap.width, bitmap.height) + padding * 2;
+
+    let offsetX = (side - bitmap.width) / 2;
+    let offsetY = (side - bitmap.height) / 2;
+
+    if (options.centering === 'mass') {
+        const c = alphaCentroid(bitmap);
+        // Keep the whole stamp on canvas even if the centroid is far off-center
+        offsetX = Math.min(Math.max(side / 2 - c.x, 0), side - bitmap.width);
+        offsetY = Math.min(Math.max(side / 2 - c.y, 0), side - bitmap.height);
+    }
+
+    return { side, offsetX, offsetY };
+}
+
+function applyCircleMask(ctx: OffscreenCanvasRenderingContext2D, size: number, edgeSoftness: number) {
+    const r = size / 2;
+    const soft = Math.min(Math.max(0, edgeSoftness), r);
+
+    ctx.globalCompositeOperation = 'destination-in';
+    if (soft > 0) {
+        const gradient = ctx.createRadialGradient(r, r, r - soft, r, r, r);
+        gradient.addColorStop(0, 'rgba(0,0,0,1)');
+        gradient.addColorStop(1, 'rgba(0,0,0,0)');
+        ctx.fillStyle = gradient;
+    } else {
+        ctx.fillStyle = 'black';
+    }
+    ctx.beginPath();
+    ctx.arc(r, r, r, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.globalCompositeOperation = 'source-over';
+}
+
+// The crop with its rotation/flip applied, at full resolution
+async function loadOriented(stamp: StampSource): Promise<ImageBitmap> {
+    const bitmap = await loadBitmap(stamp.url);
+    if (!isOriented(stamp)) return bitmap;
+    try {
+        return orientImage(bitmap, stamp).transferToImageBitmap();
+    } finally {
+        bitmap.close();
+    }
+}
+
+/**
+ * Renders a stamp to a transparent PNG in the requested shape and size.
+ * Shared by the grid preview, the per-item download, the resized download and the ZIP export.
+ */
+export async function renderStamp(stamp: StampSource, options: ShapeOptions, size: RenderSize = { maxWidth: 0, maxHeight: 0 }): Promise<RenderedStamp> {
+    const bitmap = await loadOriented(stamp);
+
+    try {
+        const layout = options.shape === 'original'
+            ? { side: 0, offsetX: 0, offsetY: 0 }
+            : layoutShape(bitmap, options);
+
+        const srcW = options.shape === 'original' ? bitmap.width : layout.side;
+        const srcH = options.shape === 'original' ? bitmap.height : layout.side;
+        const out = fitWithin(srcW, srcH, size.maxWidth, size.maxHeight);
+
+        const canvas = new OffscreenCanvas(out.width, out.height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Failed to get context');
+
+        // High quality scaling
+        ctx.imageSmoothingEnabled = true;
+        ctx.imageSmoothingQuality = 'high';
+
+        const sx = out.width / srcW;
+        const sy = out.height / srcH;
+        ctx.drawImage(bitmap,
+            layout.offsetX * sx, layout.offsetY * sy,
+            bitmap.width * sx, bitmap.height * sy
+        );
+
+        // Mask at output resolution so the edge stays crisp after resizing
+        if (options.shape === 'circle') {
+            applyCircleMask(ctx, out.width, options.edgeSoftness);
+        }
+
+        const blob = await canvas.convertToBlob({ type: 'image/png' });
+        return { blob, width: out.width, height: out.height };
+    } finally {
+        bitmap.close();
+    }
+}
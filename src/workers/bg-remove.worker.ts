@@ -1,95 +1,231 @@
-import { env, AutoModel, AutoProcessor, RawImage } from '@xenova/transformers';
+import { AutoModel, AutoProcessor, RawImage, Tensor } from '@xenova/transformers';
+import type { ModelConfig } from '../utils/modelSource';
+import { applyModelConfig } from './modelEnv';
+import { getModel, type ModelAdapter } from '../utils/modelRegistry';
+
+let activeConfig: ModelConfig | null = null;
+
+function configure(config: ModelConfig) {
+    applyModelConfig(config);
+
+    // Loaded models stay valid unless their files would now come from somewhere else
+    // (a new wasm path alone doesn't change the weights)
+    const moved = activeConfig !== null && (
+        activeConfig.source !== config.source
+        || activeConfig.localModelPath !== config.localModelPath
+        || activeConfig.files !== config.files
+    );
+    activeConfig = config;
+    if (moved) BackgroundRemover.instances.clear();
+}
+
+type Model = Awaited<ReturnType<typeof AutoModel.from_pretrained>>;
+type Processor = Awaited<ReturnType<typeof AutoProcessor.from_pretrained>>;
+type ProgressCallback = (data: Record<string, unknown>) => void;
+
+interface RemoverInstance {
+    model: Model;
+    processor: Processor;
+}
 
-// Skip local checks for faster loading in some environments, but for web it's mostly about CDN
-env.allowLocalModels = false;
-env.useBrowserCache = true;
+/**
+ * Per-model pre/post-processing. `inputs` builds the feed for the ONNX session,
+ * `mask` turns its outputs into an 8-bit single-channel mask at image size.
+ */
+interface Adapter {
+    inputs: (model: Model, pixelValues: Tensor) => Record<string, Tensor>;
+    mask: (outputs: Record<string, Tensor>, image: RawImage) => Promise<RawImage>;
+}
+
+// Sigmoid-activated [1, 1, H, W] matte in 0..1
+const unitMatte = (output: Tensor, image: RawImage) =>
+    RawImage.fromTensor(output.squeeze(0).mul(255).to('uint8')).resize(image.width, image.height);
+
+const ADAPTERS: Record<ModelAdapter, Adapter> = {
+    rmbg: {
+        inputs: (_model, pixelValues) => ({ input: pixelValues }),
+        mask: (outputs, image) => unitMatte(outputs.output, image),
+    },
+    modnet: {
+        inputs: (_model, pixelValues) => ({ input: pixelValues }),
+        mask: (outputs, image) => unitMatte(outputs.output, image),
+    },
+    u2net: {
+        // Exported U2-Net graphs use varying input/output names; use the first of each
+        inputs: (model, pixelValues) => ({ [model.session.inputNames[0]]: pixelValues }),
+        mask: async (outputs, image) => {
+            // The fused side output d0 is not normalized: min-max scale it like the reference code
+            const pred = Object.values(outputs)[0];
+            const [h, w] = pred.dims.slice(-2);
+            const values = pred.data as Float32Array;
+            let min = Infinity, max = -Infinity;
+            for (let i = 0; i < h * w; i++) {
+                if (values[i] < min) min = values[i];
+                if (values[i] > max) max = values[i];
+            }
+            const range = max - min || 1;
+            const pixels = new Uint8ClampedArray(h * w);
+            for (let i = 0; i < h * w; i++) pixels[i] = ((values[i] - min) / range) * 255;
+            return new RawImage(pixels, w, h, 1).resize(image.width, image.height);
+        },
+    },
+};
 
 class BackgroundRemover {
-    static instance: any = null;
-
-    static async getInstance(progress_callback: Function) {
-        if (this.instance === null) {
-            // Load model and processor
-            const model_id = 'briaai/RMBG-1.4';
-
-            this.instance = {
-                model: await AutoModel.from_pretrained(model_id, {
-                    progress_callback,
-                    // Quantized version is usually default and smaller
-                }),
-                processor: await AutoProcessor.from_pretrained(model_id),
-            };
+    // One instance per model, so switching back and forth doesn't reload weights
+    static instances = new Map<string, Promise<RemoverInstance>>();
+
+    static getInstance(modelId: string, progress_callback: ProgressCallback) {
+        let instance = this.instances.get(modelId);
+        if (!instance) {
+            instance = (async () => ({
+                model: await AutoModel.from_pretrained(modelId, { progress_callback }),
+                processor: await AutoProcessor.from_pretrained(modelId),
+            }))();
+            // Don't cache failures: a later request (e.g. after reconnecting) should retry
+            instance.catch(() => this.instances.delete(modelId));
+            this.instances.set(modelId, instance);
         }
-        return this.instance;
+        return instance;
     }
 }
 
-self.addEventListener('message', async (event) => {
-    const { type, data } = event.data;
+// Protocol. Every job carries an id chosen by the hook; all replies about a job echo it.
+export type BgRemoveRequest =
+    | { type: 'configure'; data: ModelConfig }
+    | { type: 'process'; id: number; data: { imageUrl: string; modelId: string } }
+    | { type: 'abort'; id: number };
+
+export type BgRemoveStatus =
+    | { status: 'loading' }
+    | { status: 'downloading'; file?: string; progress?: number; loaded?: number; total?: number }
+    | { status: 'processing' };
+
+export type BgRemoveResponse =
+    | { type: 'status'; id: number; data: BgRemoveStatus }
+    | { type: 'complete'; id: number; data: { bitmap: ImageBitmap } }
+    | { type: 'error'; id: number; data: { message: string } }
+    | { type: 'aborted'; id: number };
+
+interface Job {
+    id: number;
+    imageUrl: string;
+    modelId: string;
+    aborted: boolean;
+}
 
-    if (type === 'process') {
-        try {
-            const { imageUrl } = data;
+class JobAborted extends Error {}
 
-            // Notify start
-            self.postMessage({ type: 'status', data: { status: 'loading' } });
+// ONNX sessions can't run concurrently, so jobs sent to this worker run one at a time
+const queue: Job[] = [];
+let running: Job | null = null;
 
-            const remover = await BackgroundRemover.getInstance((data: any) => {
-                self.postMessage({ type: 'status', data: { ...data, status: 'downloading' } });
-            });
+function post(message: BgRemoveResponse, transfer: Transferable[] = []) {
+    (self as unknown as Worker).postMessage(message, transfer);
+}
 
-            self.postMessage({ type: 'status', data: { status: 'processing' } });
+async function runJob(job: Job): Promise<ImageBitmap> {
+    // Inference itself can't be interrupted; an abort takes effect at the next stage boundary
+    const checkpoint = () => {
+        if (job.aborted) throw new JobAborted();
+    };
 
-            // Load image
-            const image = await RawImage.fromURL(imageUrl);
+    const definition = getModel(job.modelId);
+    const adapter = ADAPTERS[definition.adapter];
 
-            // Pre-process
-            const { pixel_values } = await remover.processor(image);
+    // Notify start
+    post({ type: 'status', id: job.id, data: { status: 'loading' } });
 
-            // Inference
-            const { output } = await remover.model({ input: pixel_values });
+    // The download is shared by every job waiting for this model, so progress goes to whichever is running
+    const remover = await BackgroundRemover.getInstance(definition.id, (data) => {
+        if (running) post({ type: 'status', id: running.id, data: { ...data, status: 'downloading' } });
+    });
+    checkpoint();
 
-            // Post-process (get mask)
-            // The output of RMBG-1.4 is usually a single channel mask or RGBA. 
-            // For briaai/RMBG-1.4, the output is a mask. We need to apply it.
+    post({ type: 'status', id: job.id, data: { status: 'processing' } });
 
-            // Wait, transformers.js v3 might handle this differently? 
-            // Assuming standard output structure. 
-            // We need to resize mask to original image size and apply.
+    // Load image
+    const image = await RawImage.fromURL(job.imageUrl);
 
-            const mask = await RawImage.fromTensor(output[0].mul(255).to('uint8')).resize(image.width, image.height);
+    // Pre-process
+    const { pixel_values } = await remover.processor(image);
+    checkpoint();
 
-            // Create new RGBA image
-            const canvas = new OffscreenCanvas(image.width, image.height);
-            const ctx = canvas.getContext('2d');
-            if (!ctx) throw new Error('Canvas context null');
+    // Inference
+    const outputs = await remover.model(adapter.inputs(remover.model, pixel_values));
+    checkpoint();
 
-            // Draw original
-            const originalCanvas = new OffscreenCanvas(image.width, image.height);
-            const originalCtx = originalCanvas.getContext('2d');
-            originalCtx?.drawImage(image.toCanvas(), 0, 0);
-            const originalData = originalCtx?.getImageData(0, 0, image.width, image.height);
+    // Post-process: mask resized to the original image
+    const mask = await adapter.mask(outputs, image);
 
-            // Draw mask
-            ctx.drawImage(mask.toCanvas(), 0, 0);
-            const maskData = ctx.getImageData(0, 0, image.width, image.height);
+    // Create new RGBA image
+    const canvas = new OffscreenCanvas(image.width, image.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas context null');
 
-            if (originalData && maskData) {
-                for (let i = 0; i < originalData.data.length; i += 4) {
-                    // Verify mask channel (usually 0, 1, 2 are same for grayscale mask)
-                    const alpha = maskData.data[i];
-                    originalData.data[i + 3] = alpha; // Apply mask to alpha
-                }
-                ctx.putImageData(originalData, 0, 0);
-            }
+    // Draw original
+    const originalCanvas = new OffscreenCanvas(image.width, image.height);
+    const originalCtx = originalCanvas.getContext('2d');
+    originalCtx?.drawImage(image.toCanvas(), 0, 0);
+    const originalData = originalCtx?.getImageData(0, 0, image.width, image.height);
 
-            const bitmap = canvas.transferToImageBitmap();
+    // Draw mask
+    ctx.drawImage(mask.toCanvas(), 0, 0);
+    const maskData = ctx.getImageData(0, 0, image.width, image.height);
 
-            (self as any).postMessage({ type: 'complete', data: { bitmap } }, [bitmap]);
+    if (originalData && maskData) {
+        for (let i = 0; i < originalData.data.length; i += 4) {
+            // Grayscale mask: R, G and B are the same
+            const alpha = maskData.data[i];
+            originalData.data[i + 3] = alpha; // Apply mask to alpha
+        }
+        ctx.putImageData(originalData, 0, 0);
+    }
+
+    return canvas.transferToImageBitmap();
+}
 
+async function drain() {
+    if (running) return;
+    while (queue.length > 0) {
+        const job = queue.shift()!;
+        running = job;
+        try {
+            const bitmap = await runJob(job);
+            post({ type: 'complete', id: job.id, data: { bitmap } }, [bitmap]);
         } catch (error) {
-            console.error(error);
-            self.postMessage({ type: 'error', data: error });
+            if (error instanceof JobAborted) {
+                post({ type: 'aborted', id: job.id });
+            } else {
+                console.error(error);
+                post({ type: 'error', id: job.id, data: { message: error instanceof Error ? error.message : String(error) } });
+            }
+        } finally {
+            running = null;
+        }
+    }
+}
+
+self.addEventListener('message', (event: MessageEvent<BgRemoveRequest>) => {
+    const message = event.data;
+
+    switch (message.type) {
+        case 'configure':
+            configure(message.data);
+            break;
+        case 'process':
+            queue.push({ id: message.id, ...message.data, aborted: false });
+            drain();
+            break;
+        case 'abort': {
+            const index = queue.findIndex(job => job.id === message.id);
+            if (index >= 0) {
+                queue.splice(index, 1);
+                post({ type: 'aborted', id: message.id });
+            } else if (running?.id === message.id) {
+                running.aborted = true;
+            }
+            break;
         }
     }
 });
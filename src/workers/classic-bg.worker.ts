@@ -0,0 +1,493 @@
+import cvModule from '@techstark/opencv-js';
+import type { ClassicRemovalOptions } from '../hooks/useClassicBackgroundRemoval';
+import type { Corner, Quad } from '../hooks/usePerspectiveCorrection';
+
+type CV = typeof cvModule;
+type Mat = InstanceType<CV['Mat']>;
+type RGB = [number, number, number];
+
+// Compiling the wasm takes a few seconds; a load that never finishes fails the job instead of hanging it
+const CV_INIT_TIMEOUT = 60_000;
+
+let cvPromise: Promise<{ cv: CV }> | null = null;
+
+// The package exports either the ready module wrapped in a Promise or the
+// module itself, which signals readiness through onRuntimeInitialized. The
+// Emscripten module has its own `then` that calls back with itself, so it is
+// never resolved or awaited bare (the promise would keep adopting it and
+// never settle); it is handed out wrapped instead.
+function getCv(): Promise<{ cv: CV }> {
+    if (!cvPromise) {
+        const loaded = cvModule as CV | Promise<CV>;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const loading = new Promise<{ cv: CV }>((resolve, reject) => {
+            timer = setTimeout(() => reject(new Error('OpenCV.js did not finish loading')), CV_INIT_TIMEOUT);
+            if (loaded instanceof Promise) {
+                loaded.then(cv => resolve({ cv }), reject);
+                return;
+            }
+            const runtime = loaded as unknown as {
+                calledRun?: boolean;
+                onRuntimeInitialized?: () => void;
+                onAbort?: (reason: unknown) => void;
+            };
+            if (runtime.calledRun) {
+                resolve({ cv: loaded });
+                return;
+            }
+            runtime.onRuntimeInitialized = () => resolve({ cv: loaded });
+            runtime.onAbort = (reason) => reject(new Error(`OpenCV.js failed to load: ${String(reason)}`));
+        });
+        loading.finally(() => clearTimeout(timer)).catch(() => {
+            // Don't cache failures: the next job tries again
+            if (cvPromise === loading) cvPromise = null;
+        });
+        cvPromise = loading;
+    }
+    return cvPromise;
+}
+
+// GrabCut is O(pixels × iterations) and slow in wasm; it runs on a downscaled copy
+const GRABCUT_MAX_SIDE = 640;
+const GRABCUT_ITERATIONS = 5;
+
+async function loadImageData(url: string): Promise<ImageData> {
+    const bitmap = await createImageBitmap(await (await fetch(url)).blob());
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas context null');
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Per-channel median of a band along the image edges. Scans and photos of
+ * stamp sheets are paper at the borders, and the median ignores the odd
+ * stamp that touches the edge.
+ */
+function samplePaperColor(image: ImageData, band = 4): RGB {
+    const { width, height, data } = image;
+    const channels: number[][] = [[], [], []];
+    // Sample at most ~2000 pixels per edge
+    const step = Math.max(1, Math.floor(Math.max(width, height) / 2000));
+    const add = (x: number, y: number) => {
+        const i = (y * width + x) * 4;
+        channels[0].push(data[i]);
+        channels[1].push(data[i + 1]);
+        channels[2].push(data[i + 2]);
+    };
+
+    for (let b = 0; b < Math.min(band, width, height); b++) {
+        for (let x = 0; x < width; x += step) {
+            add(x, b);
+            add(x, height - 1 - b);
+        }
+        for (let y = 0; y < height; y += step) {
+            add(b, y);
+            add(width - 1 - b, y);
+        }
+    }
+
+    return channels.map(values => {
+        values.sort((a, b) => a - b);
+        return values[values.length >> 1];
+    }) as RGB;
+}
+
+const luma = ([r, g, b]: RGB) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+// Soft ramp on RGB distance: fully transparent within the tolerance, opaque a little beyond it
+function colorDistanceMask(cv: CV, image: ImageData, paper: RGB, tolerance: number): Mat {
+    const { width, height, data } = image;
+    const threshold = tolerance * 2.2; // 100 ≈ 220 of the 441 max RGB distance
+    const softness = Math.max(8, threshold * 0.5);
+    const alpha = new Uint8Array(width * height);
+
+    for (let p = 0, i = 0; p < alpha.length; p++, i += 4) {
+        const dr = data[i] - paper[0];
+        const dg = data[i + 1] - paper[1];
+        const db = data[i + 2] - paper[2];
+        const d = Math.sqrt(dr * dr + dg * dg + db * db);
+        alpha[p] = Math.max(0, Math.min(255, ((d - threshold) / softness) * 255));
+    }
+
+    return cv.matFromArray(height, width, cv.CV_8UC1, alpha);
+}
+
+/**
+ * Ink differs from the local paper brightness, which copes with uneven lighting
+ * in photos. Only outlines and strokes pass the threshold, so the external
+ * contours are filled: white areas inside a stamp stay part of it.
+ */
+function adaptiveThresholdMask(cv: CV, rgba: Mat, paper: RGB, tolerance: number): Mat {
+    const gray = new cv.Mat();
+    const binary = new cv.Mat();
+    const kernel = cv.getStructuringElement(cv.MORPH_ELLIPSE, new cv.Size(5, 5));
+    const contours = new cv.MatVector();
+    const hierarchy = new cv.Mat();
+    try {
+        cv.cvtColor(rgba, gray, cv.COLOR_RGBA2GRAY);
+        const blockSize = Math.max(15, Math.round(Math.min(rgba.cols, rgba.rows) / 30)) | 1;
+        const c = 2 + tolerance / 5;
+        // Dark ink on light paper is the usual case; light ink on dark paper inverts the test
+        const type = luma(paper) >= 128 ? cv.THRESH_BINARY_INV : cv.THRESH_BINARY;
+        cv.adaptiveThreshold(gray, binary, 255, cv.ADAPTIVE_THRESH_GAUSSIAN_C, type, blockSize, c);
+        cv.morphologyEx(binary, binary, cv.MORPH_CLOSE, kernel);
+
+        const mask = new cv.Mat(rgba.rows, rgba.cols, cv.CV_8UC1, new cv.Scalar(0));
+        cv.findContours(binary, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_SIMPLE);
+        cv.drawContours(mask, contours, -1, new cv.Scalar(255), cv.FILLED);
+        return mask;
+    } finally {
+        gray.delete();
+        binary.delete();
+        kernel.delete();
+        contours.delete();
+        hierarchy.delete();
+    }
+}
+
+/**
+ * GrabCut initialized from the paper color instead of a rectangle, so a sheet
+ * with many stamps works: the border is certain background, paper-colored
+ * pixels probable background and everything else probable foreground.
+ */
+function grabCutMask(cv: CV, rgba: Mat, paper: RGB, tolerance: number): Mat {
+    const scale = Math.min(1, GRABCUT_MAX_SIDE / Math.max(rgba.cols, rgba.rows));
+    const small = new cv.Mat();
+    const rgb = new cv.Mat();
+    const bgdModel = new cv.Mat();
+    const fgdModel = new cv.Mat();
+    let labels: Mat | null = null;
+    let smallMask: Mat | null = null;
+    try {
+        const size = new cv.Size(Math.max(1, Math.round(rgba.cols * scale)), Math.max(1, Math.round(rgba.rows * scale)));
+        cv.resize(rgba, small, size, 0, 0, cv.INTER_AREA);
+        cv.cvtColor(small, rgb, cv.COLOR_RGBA2RGB);
+
+        const { cols: width, rows: height } = rgb;
+        const threshold = tolerance * 2.2;
+        const seeds = new Uint8Array(width * height);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const p = y * width + x;
+                const i = p * 3;
+                const dr = rgb.data[i] - paper[0];
+                const dg = rgb.data[i + 1] - paper[1];
+                const db = rgb.data[i + 2] - paper[2];
+                const onBorder = x === 0 || y === 0 || x === width - 1 || y === height - 1;
+                seeds[p] = onBorder
+                    ? cv.GC_BGD
+                    : Math.sqrt(dr * dr + dg * dg + db * db) <= threshold ? cv.GC_PR_BGD : cv.GC_PR_FGD;
+            }
+        }
+        labels = cv.matFromArray(height, width, cv.CV_8UC1, seeds);
+        cv.grabCut(rgb, labels, new cv.Rect(0, 0, width, height), bgdModel, fgdModel, GRABCUT_ITERATIONS, cv.GC_INIT_WITH_MASK);
+
+        const foreground = new Uint8Array(width * height);
+        for (let p = 0; p < foreground.length; p++) {
+            const label = labels.data[p];
+            foreground[p] = label === cv.GC_FGD || label === cv.GC_PR_FGD ? 255 : 0;
+        }
+        smallMask = cv.matFromArray(height, width, cv.CV_8UC1, foreground);
+
+        const mask = new cv.Mat();
+        cv.resize(smallMask, mask, new cv.Size(rgba.cols, rgba.rows), 0, 0, cv.INTER_LINEAR);
+        return mask;
+    } finally {
+        small.delete();
+        rgb.delete();
+        bgdModel.delete();
+        fgdModel.delete();
+        labels?.delete();
+        smallMask?.delete();
+    }
+}
+
+/**
+ * Flood fill from the outside through pixels that step gradually from the
+ * paper color. The image is framed with a 1px paper border so a single seed
+ * reaches every border-connected background region; paper-colored areas
+ * enclosed by a stamp are not reached and stay opaque.
+ */
+function floodFillMask(cv: CV, rgba: Mat, paper: RGB, tolerance: number): Mat {
+    const rgb = new cv.Mat();
+    const framed = new cv.Mat();
+    const { cols: width, rows: height } = rgba;
+    // floodFill needs a mask 2px larger than the (framed) image
+    const fillMask = new cv.Mat(height + 4, width + 4, cv.CV_8UC1, new cv.Scalar(0));
+    try {
+        cv.cvtColor(rgba, rgb, cv.COLOR_RGBA2RGB);
+        cv.copyMakeBorder(rgb, framed, 1, 1, 1, 1, cv.BORDER_CONSTANT, new cv.Scalar(paper[0], paper[1], paper[2], 255));
+
+        // Floating range: compared with the neighbor, so paper shading gradients are followed
+        const step = 1 + tolerance * 0.3;
+        const diff = new cv.Scalar(step, step, step, 0);
+        const flags = 4 | (255 << 8) | cv.FLOODFILL_MASK_ONLY;
+        cv.floodFill(framed, fillMask, new cv.Point(0, 0), new cv.Scalar(0, 0, 0, 0), new cv.Rect(), diff, diff, flags);
+
+        const background = fillMask.roi(new cv.Rect(2, 2, width, height));
+        const mask = new cv.Mat();
+        cv.bitwise_not(background, mask);
+        background.delete();
+        return mask;
+    } finally {
+        rgb.delete();
+        framed.delete();
+        fillMask.delete();
+    }
+}
+
+async function removeBackground(imageUrl: string, options: ClassicRemovalOptions): Promise<ImageBitmap> {
+    const { cv } = await getCv();
+    const image = await loadImageData(imageUrl);
+    const paper = samplePaperColor(image);
+
+    const rgba = cv.matFromImageData(image);
+    let mask: Mat | null = null;
+    try {
+        switch (options.method) {
+            case 'color':
+                mask = colorDistanceMask(cv, image, paper, options.tolerance);
+                break;
+            case 'threshold':
+                mask = adaptiveThresholdMask(cv, rgba, paper, options.tolerance);
+                break;
+            case 'grabcut':
+                mask = grabCutMask(cv, rgba, paper, options.tolerance);
+                break;
+            case 'flood':
+                mask = floodFillMask(cv, rgba, paper, options.tolerance);
+                break;
+        }
+
+        if (options.feather > 0) {
+            const k = options.feather * 2 + 1;
+            cv.GaussianBlur(mask, mask, new cv.Size(k, k), 0);
+        }
+
+        // Keep any transparency the upload already had
+        for (let p = 0, i = 3; p < mask.data.length; p++, i += 4) {
+            image.data[i] = Math.min(image.data[i], mask.data[p]);
+        }
+    } finally {
+        rgba.delete();
+        mask?.delete();
+    }
+
+    const canvas = new OffscreenCanvas(image.width, image.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas context null');
+    ctx.putImageData(image, 0, 0);
+    return canvas.transferToImageBitmap();
+}
+
+// Sheet detection runs on a downscaled copy; edges don't need the full resolution
+const DETECT_MAX_SIDE = 800;
+// A sheet outline must cover this much of the photo, so a single stamp's frame isn't taken for it
+const MIN_SHEET_AREA = 0.2;
+// Guards against corners dragged into a sliver that would warp to an enormous image
+const MAX_WARP_SIDE = 8192;
+
+const distance = (a: Corner, b: Corner) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Clockwise by angle around the centroid, starting from the corner with the smallest
+// x + y, so a sheet turned ~45° still gets four distinct corners
+function orderCorners(points: Corner[]): Quad {
+    const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    const clockwise = [...points].sort((a, b) => Math.atan2(a.y - cy, a.x - cx) - Math.atan2(b.y - cy, b.x - cx));
+    let start = 0;
+    clockwise.forEach((p, i) => {
+        if (p.x + p.y < clockwise[start].x + clockwise[start].y) start = i;
+    });
+    return [0, 1, 2, 3].map(i => clockwise[(start + i) % 4]) as Quad;
+}
+
+/**
+ * Finds the outline of a sheet photographed at an angle: the largest convex
+ * four-sided contour in the edge map. Null when nothing big enough stands out
+ * (e.g. the sheet fills the whole photo or blends into the table).
+ */
+async function detectSheetCorners(imageUrl: string): Promise<Quad | null> {
+    const { cv } = await getCv();
+    const image = await loadImageData(imageUrl);
+    const scale = Math.min(1, DETECT_MAX_SIDE / Math.max(image.width, image.height));
+
+    const rgba = cv.matFromImageData(image);
+    const gray = new cv.Mat();
+    const edges = new cv.Mat();
+    const kernel = cv.getStructuringElement(cv.MORPH_RECT, new cv.Size(3, 3));
+    const contours = new cv.MatVector();
+    const hierarchy = new cv.Mat();
+    try {
+        cv.cvtColor(rgba, gray, cv.COLOR_RGBA2GRAY);
+        if (scale < 1) cv.resize(gray, gray, new cv.Size(0, 0), scale, scale, cv.INTER_AREA);
+        cv.GaussianBlur(gray, gray, new cv.Size(5, 5), 0);
+        cv.Canny(gray, edges, 50, 150);
+        // Closes small gaps where the sheet edge fades against the background
+        cv.dilate(edges, edges, kernel);
+        cv.findContours(edges, contours, hierarchy, cv.RETR_LIST, cv.CHAIN_APPROX_SIMPLE);
+
+        let best: { area: number; points: Corner[] } | null = null;
+        const minArea = gray.cols * gray.rows * MIN_SHEET_AREA;
+        for (let i = 0; i < contours.size(); i++) {
+            const contour = contours.get(i);
+            const approx = new cv.Mat();
+            try {
+                cv.approxPolyDP(contour, approx, 0.02 * cv.arcLength(contour, true), true);
+                if (approx.rows !== 4 || !cv.isContourConvex(approx)) continue;
+                const area = cv.contourArea(approx);
+                if (area < minArea || (best && area <= best.area)) continue;
+                const points: Corner[] = [];
+                for (let p = 0; p < 4; p++) {
+                    points.push({ x: approx.data32S[p * 2] / scale, y: approx.data32S[p * 2 + 1] / scale });
+                }
+                best = { area, points };
+            } finally {
+                contour.delete();
+                approx.delete();
+            }
+        }
+        return best ? orderCorners(best.points) : null;
+    } finally {
+        rgba.delete();
+        gray.delete();
+        edges.delete();
+        kernel.delete();
+        contours.delete();
+        hierarchy.delete();
+    }
+}
+
+/**
+ * Maps the quad onto an upright rectangle as wide as its longer horizontal
+ * side and as tall as its longer vertical side, so the sheet keeps its
+ * resolution. JPEG and WebP photos stay in their format, anything else
+ * becomes PNG.
+ */
+async function warpPerspective(imageUrl: string, corners: Quad, type: string): Promise<Blob> {
+    const [tl, tr, br, bl] = corners;
+    const width = Math.round(Math.max(distance(tl, tr), distance(bl, br)));
+    const height = Math.round(Math.max(distance(tl, bl), distance(tr, br)));
+    if (width < 1 || height < 1 || width > MAX_WARP_SIDE || height > MAX_WARP_SIDE) {
+        throw new Error('The corners must outline the sheet');
+    }
+
+    const { cv } = await getCv();
+    const image = await loadImageData(imageUrl);
+    const rgba = cv.matFromImageData(image);
+    const warped = new cv.Mat();
+    const from = cv.matFromArray(4, 1, cv.CV_32FC2, corners.flatMap(p => [p.x, p.y]));
+    const to = cv.matFromArray(4, 1, cv.CV_32FC2, [0, 0, width, 0, width, height, 0, height]);
+    let transform: Mat | null = null;
+    let result: ImageData;
+    try {
+        transform = cv.getPerspectiveTransform(from, to);
+        cv.warpPerspective(rgba, warped, transform, new cv.Size(width, height), cv.INTER_CUBIC, cv.BORDER_REPLICATE, new cv.Scalar());
+        result = new ImageData(new Uint8ClampedArray(warped.data), width, height);
+    } finally {
+        rgba.delete();
+        warped.delete();
+        from.delete();
+        to.delete();
+        transform?.delete();
+    }
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas context null');
+    ctx.putImageData(result, 0, 0);
+    const keepsFormat = type === 'image/jpeg' || type === 'image/webp';
+    return canvas.convertToBlob({ type: keepsFormat ? type : 'image/png', quality: 0.95 });
+}
+
+// Protocol. Every request carries an id chosen by the hook; the reply echoes it.
+// Besides background removal, the worker serves the perspective step before upload,
+// which needs the same OpenCV runtime.
+export type ClassicRequest =
+    | { type: 'remove'; id: number; data: { imageUrl: string; options: ClassicRemovalOptions } }
+    | { type: 'detect-corners'; id: number; data: { imageUrl: string } }
+    | { type: 'warp'; id: number; data: { imageUrl: string; corners: Quad; type: string } }
+    | { type: 'abort'; id: number };
+
+export type ClassicResponse =
+    | { type: 'complete'; id: number; data: { bitmap: ImageBitmap } }
+    | { type: 'corners'; id: number; data: { corners: Quad | null } }
+    | { type: 'warped'; id: number; data: { blob: Blob } }
+    | { type: 'error'; id: number; data: { message: string } }
+    | { type: 'aborted'; id: number };
+
+interface Job {
+    request: Exclude<ClassicRequest, { type: 'abort' }>;
+    aborted: boolean;
+}
+
+// Jobs run one at a time in the order they were sent: a batch posts all its files up
+// front, and decoding them all at once would hold every image and Mat in memory together
+const queue: Job[] = [];
+let running: Job | null = null;
+
+function post(message: ClassicResponse, transfer: Transferable[] = []) {
+    (self as unknown as Worker).postMessage(message, transfer);
+}
+
+async function runJob({ request }: Job): Promise<{ reply: ClassicResponse; transfer: Transferable[] }> {
+    switch (request.type) {
+        case 'remove': {
+            const bitmap = await removeBackground(request.data.imageUrl, request.data.options);
+            return { reply: { type: 'complete', id: request.id, data: { bitmap } }, transfer: [bitmap] };
+        }
+        case 'detect-corners': {
+            const corners = await detectSheetCorners(request.data.imageUrl);
+            return { reply: { type: 'corners', id: request.id, data: { corners } }, transfer: [] };
+        }
+        case 'warp': {
+            const blob = await warpPerspective(request.data.imageUrl, request.data.corners, request.data.type);
+            return { reply: { type: 'warped', id: request.id, data: { blob } }, transfer: [] };
+        }
+    }
+}
+
+async function drain() {
+    if (running) return;
+    while (queue.length > 0) {
+        const job = queue.shift()!;
+        running = job;
+        const { id } = job.request;
+        try {
+            const { reply, transfer } = await runJob(job);
+            // OpenCV calls can't be interrupted; an abort while running drops the result
+            if (job.aborted) {
+                if (reply.type === 'complete') reply.data.bitmap.close();
+                post({ type: 'aborted', id });
+            } else {
+                post(reply, transfer);
+            }
+        } catch (error) {
+            console.error(error);
+            post({ type: 'error', id, data: { message: error instanceof Error ? error.message : String(error) } });
+        } finally {
+            running = null;
+        }
+    }
+}
+
+self.addEventListener('message', (event: MessageEvent<ClassicRequest>) => {
+    const message = event.data;
+
+    if (message.type === 'abort') {
+        const index = queue.findIndex(job => job.request.id === message.id);
+        if (index >= 0) {
+            queue.splice(index, 1);
+            post({ type: 'aborted', id: message.id });
+        } else if (running?.request.id === message.id) {
+            running.aborted = true;
+        }
+        return;
+    }
+
+    queue.push({ request: message, aborted: false });
+    drain();
+});
@@ -0,0 +1,43 @@
+import { env } from '@xenova/transformers';
+import type { ModelConfig } from '../utils/modelSource';
+
+// transformers.js settings shared by the model workers (background removal and prompt segmentation)
+
+// Defaults until the hook sends 'configure': Hugging Face CDN + browser cache
+env.allowLocalModels = false;
+env.useBrowserCache = true;
+
+// Serves model files from a user-picked folder through transformers.js' custom cache hook
+class FolderCache {
+    files: Map<string, File>;
+
+    constructor(files: Map<string, File>) {
+        this.files = files;
+    }
+
+    async match(key: string | Request) {
+        const url = typeof key === 'string' ? key : key.url;
+        const path = url.split('?')[0];
+        for (const [rel, file] of this.files) {
+            if (path.endsWith(`/${rel}`)) return new Response(file);
+        }
+        return undefined;
+    }
+
+    async put() {
+        // Files are already local, nothing to cache
+    }
+}
+
+// Points transformers.js at the configured source. Models loaded before keep their old weights,
+// so callers drop their cached instances afterwards.
+export function applyModelConfig(config: ModelConfig) {
+    env.allowRemoteModels = config.source === 'remote';
+    // 'folder' needs local models enabled, but the custom cache answers before any request is made
+    env.allowLocalModels = config.source !== 'remote';
+    env.localModelPath = config.localModelPath;
+    env.useBrowserCache = config.source === 'remote';
+    env.useCustomCache = config.source === 'folder';
+    env.customCache = config.source === 'folder' && config.files ? new FolderCache(config.files) : null;
+    if (config.wasmPaths) env.backends.onnx.wasm.wasmPaths = config.wasmPaths;
+}
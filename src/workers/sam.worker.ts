@@ -0,0 +1,211 @@
+import { AutoProcessor, RawImage, SamModel, Tensor, type SamProcessor } from '@xenova/transformers';
+import type { ModelConfig } from '../utils/modelSource';
+import { PROMPT_MODEL } from '../utils/modelRegistry';
+import { alphaBounds } from '../utils/maskRefine';
+import type { PromptMask, SegmentPrompt } from '../hooks/usePromptSegmenter';
+import { applyModelConfig } from './modelEnv';
+
+type ProgressCallback = (data: Record<string, unknown>) => void;
+
+interface SamInstance {
+    model: SamModel;
+    processor: SamProcessor;
+}
+
+// Output of the image encoder plus the sizes needed to map prompts and masks
+interface Embedding {
+    imageUrl: string;
+    width: number;
+    height: number;
+    originalSizes: number[][];
+    reshapedInputSizes: number[][];
+    imageEmbeddings: Tensor;
+    imagePositionalEmbeddings: Tensor;
+}
+
+// An embedding is ~8 MB; keep the sources clicked most recently
+const MAX_CACHED_EMBEDDINGS = 4;
+
+let instance: Promise<SamInstance> | null = null;
+const embeddings = new Map<string, Promise<Embedding>>(); // sourceId -> embedding, oldest first
+
+function configure(config: ModelConfig) {
+    applyModelConfig(config);
+
+    // Force a reload from the new source on the next request; embeddings stay valid
+    instance = null;
+}
+
+function getInstance(progress_callback: ProgressCallback) {
+    if (!instance) {
+        const loading = (async () => ({
+            model: await SamModel.from_pretrained(PROMPT_MODEL.id, { progress_callback }) as SamModel,
+            processor: await AutoProcessor.from_pretrained(PROMPT_MODEL.id) as SamProcessor,
+        }))();
+        // Don't cache failures: a later request (e.g. after reconnecting) should retry
+        loading.catch(() => {
+            if (instance === loading) instance = null;
+        });
+        instance = loading;
+    }
+    return instance;
+}
+
+function getEmbedding(sam: SamInstance, sourceId: string, imageUrl: string, onEncode: () => void) {
+    const cached = embeddings.get(sourceId);
+    embeddings.delete(sourceId);
+    let embedding = cached;
+    if (!embedding) {
+        onEncode();
+        embedding = (async () => {
+            const image = await RawImage.fromURL(imageUrl);
+            const inputs = await sam.processor(image);
+            const { image_embeddings, image_positional_embeddings } = await sam.model.get_image_embeddings(inputs);
+            return {
+                imageUrl,
+                width: image.width,
+                height: image.height,
+                originalSizes: inputs.original_sizes,
+                reshapedInputSizes: inputs.reshaped_input_sizes,
+                imageEmbeddings: image_embeddings,
+                imagePositionalEmbeddings: image_positional_embeddings,
+            };
+        })();
+        embedding.catch(() => {
+            if (embeddings.get(sourceId) === embedding) embeddings.delete(sourceId);
+        });
+    }
+    // Re-inserted so the map stays ordered by last use
+    embeddings.set(sourceId, embedding);
+    while (embeddings.size > MAX_CACHED_EMBEDDINGS) {
+        embeddings.delete(embeddings.keys().next().value!);
+    }
+    return embedding;
+}
+
+const sigmoid = (logit: number) => 1 / (1 + Math.exp(-logit));
+
+/**
+ * Runs the prompt decoder and returns the mask it scores best. The exported
+ * decoder only understands point labels 0/1, so a box is given to it as a
+ * positive point in its middle (unless there are positive clicks) and the
+ * mask is clipped to the box.
+ */
+async function decode(sam: SamInstance, embedding: Embedding, prompt: SegmentPrompt): Promise<PromptMask | null> {
+    const points = [...prompt.points];
+    const { box } = prompt;
+    if (box && !points.some(p => p.label === 1)) {
+        points.push({ x: box.x + box.width / 2, y: box.y + box.height / 2, label: 1 });
+    }
+    if (points.length === 0) return null;
+
+    // The encoder saw the image scaled so its longest side fits; prompts are scaled the same way
+    const [[height, width]] = embedding.originalSizes;
+    const [[reshapedHeight, reshapedWidth]] = embedding.reshapedInputSizes;
+    const input_points = new Tensor('float32', new Float32Array(points.flatMap(p => [
+        p.x * reshapedWidth / width,
+        p.y * reshapedHeight / height,
+    ])), [1, 1, points.length, 2]);
+    const input_labels = new Tensor('int64', new BigInt64Array(points.map(p => BigInt(p.label))), [1, 1, points.length]);
+
+    const outputs = await sam.model({
+        image_embeddings: embedding.imageEmbeddings,
+        image_positional_embeddings: embedding.imagePositionalEmbeddings,
+        input_points,
+        input_labels,
+    });
+
+    // pred_masks is [1, 1, candidates, 256, 256]; only the best candidate is scaled up
+    const scores = outputs.iou_scores.data as Float32Array;
+    let best = 0;
+    for (let i = 1; i < scores.length; i++) if (scores[i] > scores[best]) best = i;
+    const [, , , maskHeight, maskWidth] = outputs.pred_masks.dims;
+    const size = maskHeight * maskWidth;
+    const lowRes = new Tensor('float32', (outputs.pred_masks.data as Float32Array).slice(best * size, (best + 1) * size), [1, 1, 1, maskHeight, maskWidth]);
+    const [logits] = await sam.processor.post_process_masks(lowRes, embedding.originalSizes, embedding.reshapedInputSizes, { binarize: false });
+
+    // Logits to soft alpha, so the edge keeps a little anti-aliasing
+    const values = logits.data as Float32Array;
+    const alpha = new Uint8ClampedArray(width * height);
+    const clip = box
+        ? { x0: Math.floor(box.x), y0: Math.floor(box.y), x1: Math.ceil(box.x + box.width), y1: Math.ceil(box.y + box.height) }
+        : { x0: 0, y0: 0, x1: width, y1: height };
+    for (let y = Math.max(0, clip.y0); y < Math.min(height, clip.y1); y++) {
+        for (let x = Math.max(0, clip.x0); x < Math.min(width, clip.x1); x++) {
+            const i = y * width + x;
+            alpha[i] = sigmoid(values[i]) * 255;
+        }
+    }
+
+    const bounds = alphaBounds(alpha, width, height);
+    if (!bounds) return null;
+    const cropped = new Uint8ClampedArray(bounds.width * bounds.height);
+    for (let y = 0; y < bounds.height; y++) {
+        const row = (bounds.y + y) * width + bounds.x;
+        cropped.set(alpha.subarray(row, row + bounds.width), y * bounds.width);
+    }
+    return { ...bounds, alpha: cropped };
+}
+
+// Protocol. Every decode carries an id chosen by the hook; all replies about it echo it.
+export type SamRequest =
+    | { type: 'configure'; data: ModelConfig }
+    | { type: 'decode'; id: number; data: { sourceId: string; imageUrl: string; prompt: SegmentPrompt } }
+    | { type: 'forget'; sourceId: string };
+
+export type SamStatus =
+    | { status: 'loading' }
+    | { status: 'downloading'; file?: string; progress?: number; loaded?: number; total?: number }
+    | { status: 'encoding' } // first click on a source: computing its embedding
+    | { status: 'decoding' };
+
+export type SamResponse =
+    | { type: 'status'; id: number; data: SamStatus }
+    | { type: 'complete'; id: number; data: { mask: PromptMask | null } }
+    | { type: 'error'; id: number; data: { message: string } };
+
+function post(message: SamResponse, transfer: Transferable[] = []) {
+    (self as unknown as Worker).postMessage(message, transfer);
+}
+
+async function runDecode(id: number, { sourceId, imageUrl, prompt }: { sourceId: string; imageUrl: string; prompt: SegmentPrompt }) {
+    post({ type: 'status', id, data: { status: 'loading' } });
+    const sam = await getInstance((data) => post({ type: 'status', id, data: { ...data, status: 'downloading' } }));
+
+    let embedding = await getEmbedding(sam, sourceId, imageUrl, () => post({ type: 'status', id, data: { status: 'encoding' } }));
+    if (embedding.imageUrl !== imageUrl) {
+        // Same source id, different image (e.g. a restored session): encode again
+        embeddings.delete(sourceId);
+        embedding = await getEmbedding(sam, sourceId, imageUrl, () => post({ type: 'status', id, data: { status: 'encoding' } }));
+    }
+
+    post({ type: 'status', id, data: { status: 'decoding' } });
+    return decode(sam, embedding, prompt);
+}
+
+// ONNX sessions can't run concurrently, so requests are chained
+let chain: Promise<void> = Promise.resolve();
+
+self.addEventListener('message', (event: MessageEvent<SamRequest>) => {
+    const message = event.data;
+
+    switch (message.type) {
+        case 'configure':
+            configure(message.data);
+            break;
+        case 'decode':
+            chain = chain.then(async () => {
+                try {
+                    const mask = await runDecode(message.id, message.data);
+                    post({ type: 'complete', id: message.id, data: { mask } }, mask ? [mask.alpha.buffer] : []);
+                } catch (error) {
+                    console.error(error);
+                    post({ type: 'error', id: message.id, data: { message: error instanceof Error ? error.message : String(error) } });
+                }
+            });
+            break;
+        case 'forget':
+            embeddings.delete(message.sourceId);
+            break;
+    }
+});
@@ -0,0 +1,279 @@
+import type { SegmentationOptions } from '../hooks/useObjectSegmenter';
+import { detectRotation } from '../utils/stampOrientation';
+
+export interface SegmentBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    blob: Blob;
+    rotation?: number; // set with autoStraighten when the stamp is tilted
+}
+
+// Progress is reported as 0-100 over these stages
+export type SegmentStage = 'threshold' | 'dilate' | 'label' | 'extract';
+
+const STAGES: Record<SegmentStage, readonly [number, number]> = {
+    threshold: [0, 10],
+    dilate: [10, 40],
+    label: [40, 70],
+    extract: [70, 100],
+};
+
+// Last percent sent per request id; requests from the editor and a batch can interleave
+const lastReported = new Map<number, number>();
+
+function report(id: number, stage: SegmentStage, fraction: number) {
+    const [from, to] = STAGES[stage];
+    const progress = Math.round(from + (to - from) * fraction);
+    // Throttle: one message per whole percent
+    if (progress === lastReported.get(id)) return;
+    lastReported.set(id, progress);
+    self.postMessage({ type: 'progress', id, data: { progress, stage, fraction } });
+}
+
+/**
+ * Separable square dilation with radius r using a sliding window count,
+ * O(n) regardless of r. Equivalent to the old per-pixel kernel stamping.
+ */
+function dilate(src: Uint8Array, width: number, height: number, r: number, onRow: (fraction: number) => void) {
+    if (r <= 0) return src.slice();
+
+    const temp = new Uint8Array(width * height);
+    const out = new Uint8Array(width * height);
+
+    // Horizontal pass
+    for (let y = 0; y < height; y++) {
+        const row = y * width;
+        let count = 0;
+        // Prime the window [-r, r] around x = 0
+        for (let k = 0; k <= Math.min(r, width - 1); k++) count += src[row + k];
+        for (let x = 0; x < width; x++) {
+            if (count > 0) temp[row + x] = 1;
+            const enter = x + r + 1;
+            const leave = x - r;
+            if (enter < width) count += src[row + enter];
+            if (leave >= 0) count -= src[row + leave];
+        }
+        if ((y & 63) === 0) onRow(y / height / 2);
+    }
+
+    // Vertical pass
+    for (let x = 0; x < width; x++) {
+        let count = 0;
+        for (let k = 0; k <= Math.min(r, height - 1); k++) count += temp[k * width + x];
+        for (let y = 0; y < height; y++) {
+            if (count > 0) out[y * width + x] = 1;
+            const enter = y + r + 1;
+            const leave = y - r;
+            if (enter < height) count += temp[enter * width + x];
+            if (leave >= 0) count -= temp[leave * width + x];
+        }
+        if ((x & 63) === 0) onRow(0.5 + x / width / 2);
+    }
+
+    return out;
+}
+
+interface Component {
+    minX: number; minY: number; maxX: number; maxY: number; // dilated extent
+    rMinX: number; rMinY: number; rMaxX: number; rMaxY: number; // tight extent of real foreground
+    pixels: number; // dilated pixel count
+    hasContent: boolean;
+}
+
+/**
+ * Two-pass connected component labeling (4-connectivity) with union-find.
+ * Roots are always the smallest provisional label, so components come out
+ * in raster order of their first pixel, same as the old BFS.
+ */
+function labelComponents(mask: Uint8Array, foreground: Uint8Array, width: number, height: number, onRow: (fraction: number) => void) {
+    const labels = new Int32Array(width * height);
+    // Grown on demand; index 0 is the background label
+    let parent = new Int32Array(1024);
+    let next = 1;
+
+    const find = (a: number) => {
+        while (parent[a] !== a) {
+            parent[a] = parent[parent[a]];
+            a = parent[a];
+        }
+        return a;
+    };
+    const union = (a: number, b: number) => {
+        const ra = find(a), rb = find(b);
+        if (ra < rb) parent[rb] = ra;
+        else if (rb < ra) parent[ra] = rb;
+        return Math.min(ra, rb);
+    };
+
+    // Pass 1: provisional labels and equivalences
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const idx = y * width + x;
+            if (!mask[idx]) continue;
+
+            const left = x > 0 ? labels[idx - 1] : 0;
+            const up = y > 0 ? labels[idx - width] : 0;
+
+            if (left && up) {
+                labels[idx] = left === up ? left : union(left, up);
+            } else if (left || up) {
+                labels[idx] = left || up;
+            } else {
+                if (next >= parent.length) {
+                    const grown = new Int32Array(parent.length * 2);
+                    grown.set(parent);
+                    parent = grown;
+                }
+                parent[next] = next;
+                labels[idx] = next++;
+            }
+        }
+        if ((y & 63) === 0) onRow(y / height / 2);
+    }
+
+    // Pass 2: resolve roots and accumulate stats per root
+    const components = new Map<number, Component>();
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const idx = y * width + x;
+            if (!labels[idx]) continue;
+
+            const root = find(labels[idx]);
+            let c = components.get(root);
+            if (!c) {
+                c = {
+                    minX: x, minY: y, maxX: x, maxY: y,
+                    rMinX: width, rMinY: height, rMaxX: 0, rMaxY: 0,
+                    pixels: 0, hasContent: false,
+                };
+                components.set(root, c);
+            }
+
+            c.pixels++;
+            if (x < c.minX) c.minX = x;
+            if (x > c.maxX) c.maxX = x;
+            if (y > c.maxY) c.maxY = y;
+
+            if (foreground[idx]) {
+                c.hasContent = true;
+                if (x < c.rMinX) c.rMinX = x;
+                if (x > c.rMaxX) c.rMaxX = x;
+                if (y < c.rMinY) c.rMinY = y;
+                if (y > c.rMaxY) c.rMaxY = y;
+            }
+        }
+        if ((y & 63) === 0) onRow(0.5 + y / height / 2);
+    }
+
+    return Array.from(components.entries())
+        .sort((a, b) => a[0] - b[0])
+        .map(([, c]) => c);
+}
+
+async function segment(id: number, bitmap: ImageBitmap, options: SegmentationOptions): Promise<SegmentBox[]> {
+    const width = bitmap.width;
+    const height = bitmap.height;
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Failed to get context');
+
+    ctx.drawImage(bitmap, 0, 0);
+    const data = ctx.getImageData(0, 0, width, height).data;
+
+    // 1. Binary foreground map
+    const foreground = new Uint8Array(width * height);
+    for (let i = 0; i < width * height; i++) {
+        if (data[i * 4 + 3] > options.alphaThreshold) foreground[i] = 1;
+    }
+    report(id, 'threshold', 1);
+
+    // 2. Dilation merges nearby fragments of the same stamp
+    const dilated = dilate(foreground, width, height, options.dilationRadius, f => report(id, 'dilate', f));
+
+    // 3. Connected components
+    const components = labelComponents(dilated, foreground, width, height, f => report(id, 'label', f));
+
+    // 4. Noise filter, padding and even dimensions
+    const boxes: { minX: number; minY: number; maxX: number; maxY: number }[] = [];
+    for (const c of components) {
+        const areaBox = (c.maxX - c.minX + 1) * (c.maxY - c.minY + 1);
+        if (!(areaBox > options.minBoxArea || c.pixels > options.minPixelCount)) continue;
+        if (!c.hasContent) continue;
+
+        const { padding } = options;
+        let minX = Math.max(0, c.rMinX - padding);
+        let minY = Math.max(0, c.rMinY - padding);
+        let maxX = Math.min(width - 1, c.rMaxX + padding);
+        let maxY = Math.min(height - 1, c.rMaxY + padding);
+
+        if (options.evenDimensions && (maxX - minX + 1) % 2 !== 0) {
+            if (maxX < width - 1) maxX++;
+            else if (minX > 0) minX--;
+        }
+        if (options.evenDimensions && (maxY - minY + 1) % 2 !== 0) {
+            if (maxY < height - 1) maxY++;
+            else if (minY > 0) minY--;
+        }
+
+        boxes.push({ minX, minY, maxX, maxY });
+    }
+
+    // 5. Extract crops
+    const results: SegmentBox[] = [];
+    for (let i = 0; i < boxes.length; i++) {
+        const box = boxes[i];
+        const objWidth = box.maxX - box.minX + 1;
+        const objHeight = box.maxY - box.minY + 1;
+
+        const objCanvas = new OffscreenCanvas(objWidth, objHeight);
+        const objCtx = objCanvas.getContext('2d');
+        if (!objCtx) throw new Error('Ctx error');
+
+        objCtx.drawImage(bitmap,
+            box.minX, box.minY, objWidth, objHeight,
+            0, 0, objWidth, objHeight
+        );
+
+        let rotation: number | null = null;
+        if (options.autoStraighten) {
+            const region = new Uint8Array(objWidth * objHeight);
+            for (let y = 0; y < objHeight; y++) {
+                const row = (box.minY + y) * width + box.minX;
+                region.set(foreground.subarray(row, row + objWidth), y * objWidth);
+            }
+            rotation = detectRotation(region, objWidth, objHeight);
+        }
+
+        results.push({
+            x: box.minX,
+            y: box.minY,
+            width: objWidth,
+            height: objHeight,
+            blob: await objCanvas.convertToBlob({ type: 'image/png' }),
+            ...(rotation ? { rotation } : {}),
+        });
+        report(id, 'extract', (i + 1) / boxes.length);
+    }
+
+    return results;
+}
+
+self.addEventListener('message', async (event) => {
+    const { type, id, data } = event.data;
+
+    if (type === 'segment') {
+        try {
+            const boxes = await segment(id, data.bitmap, data.options);
+            data.bitmap.close();
+            report(id, 'extract', 1);
+            self.postMessage({ type: 'complete', id, data: { boxes } });
+        } catch (error) {
+            console.error(error);
+            self.postMessage({ type: 'error', id, data: String(error) });
+        } finally {
+            lastReported.delete(id);
+        }
+    }
+});